@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "GeofenceType" AS ENUM ('CIRCLE', 'POLYGON');
+
+-- CreateEnum
+CREATE TYPE "GeofenceTransition" AS ENUM ('ENTER', 'EXIT');
+
+-- CreateTable
+CREATE TABLE "Geofence" (
+    "id" SERIAL NOT NULL,
+    "deviceId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "type" "GeofenceType" NOT NULL,
+    "centerLat" DOUBLE PRECISION,
+    "centerLong" DOUBLE PRECISION,
+    "radius" DOUBLE PRECISION,
+    "polygon" JSONB,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "isInside" BOOLEAN,
+    "stateChangedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Geofence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "GeofenceEvent" (
+    "id" SERIAL NOT NULL,
+    "geofenceId" INTEGER NOT NULL,
+    "deviceCode" TEXT NOT NULL,
+    "transition" "GeofenceTransition" NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "long" DOUBLE PRECISION NOT NULL,
+    "trackingId" INTEGER,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GeofenceEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Geofence_deviceId_idx" ON "Geofence"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "GeofenceEvent_deviceCode_occurredAt_idx" ON "GeofenceEvent"("deviceCode", "occurredAt");
+
+-- CreateIndex
+CREATE INDEX "GeofenceEvent_geofenceId_idx" ON "GeofenceEvent"("geofenceId");
+
+-- AddForeignKey
+ALTER TABLE "Geofence" ADD CONSTRAINT "Geofence_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "GeofenceEvent" ADD CONSTRAINT "GeofenceEvent_geofenceId_fkey" FOREIGN KEY ("geofenceId") REFERENCES "Geofence"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "odometer" DOUBLE PRECISION NOT NULL DEFAULT 0,
+ADD COLUMN     "odometerAt" TIMESTAMP(3),
+ADD COLUMN     "odometerLat" DOUBLE PRECISION,
+ADD COLUMN     "odometerLong" DOUBLE PRECISION;
+
+-- CreateTable
+CREATE TABLE "DeviceDailyDistance" (
+    "id" SERIAL NOT NULL,
+    "deviceCode" TEXT NOT NULL,
+    "day" DATE NOT NULL,
+    "distance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "DeviceDailyDistance_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeviceDailyDistance_deviceCode_day_key" ON "DeviceDailyDistance"("deviceCode", "day");
@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "Tracking_deviceCode_trackedAt_id_idx" ON "Tracking"("deviceCode", "trackedAt", "id");
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Tracking" ADD COLUMN "receivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing rows were stamped on receipt, so both times are the same
+UPDATE "Tracking" SET "receivedAt" = "trackedAt";
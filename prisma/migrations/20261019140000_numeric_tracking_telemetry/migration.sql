@@ -0,0 +1,52 @@
+-- Converts the telemetry columns of "Tracking" from TEXT to numeric types.
+-- Values that are not plain numbers (or coordinates out of range) become NULL
+-- and the original strings are kept in "unparsedTelemetry" for review.
+
+-- Parses a trimmed decimal string, NULL for anything else
+CREATE FUNCTION pg_temp.parse_number(value TEXT) RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE
+    WHEN btrim(value) ~ '^[-+]?([0-9]+\.?[0-9]*|\.[0-9]+)([eE][-+]?[0-9]+)?$' THEN btrim(value)::DOUBLE PRECISION
+  END
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- Parses a value and rejects it outside [low, high]
+CREATE FUNCTION pg_temp.parse_bounded(value TEXT, low DOUBLE PRECISION, high DOUBLE PRECISION) RETURNS DOUBLE PRECISION AS $$
+  SELECT CASE
+    WHEN pg_temp.parse_number(value) BETWEEN low AND high THEN pg_temp.parse_number(value)
+  END
+$$ LANGUAGE SQL IMMUTABLE;
+
+-- AlterTable
+ALTER TABLE "Tracking" ADD COLUMN "unparsedTelemetry" JSONB;
+
+-- Flag rows with values that will not survive the conversion
+UPDATE "Tracking" SET "unparsedTelemetry" = (
+  SELECT jsonb_object_agg("field", "value")
+  FROM (VALUES
+    ('lat', "lat", pg_temp.parse_bounded("lat", -90, 90)),
+    ('long', "long", pg_temp.parse_bounded("long", -180, 180)),
+    ('level', "level", pg_temp.parse_number("level")),
+    ('altitude', "altitude", pg_temp.parse_number("altitude")),
+    ('speed', "speed", pg_temp.parse_number("speed")),
+    ('compress', "compress", pg_temp.parse_number("compress")),
+    ('weight', "weight", pg_temp.parse_number("weight")),
+    ('noOfSatellites', "noOfSatellites", pg_temp.parse_bounded("noOfSatellites", 0, 1000))
+  ) AS "parsed"("field", "value", "number")
+  WHERE "value" IS NOT NULL AND btrim("value") <> '' AND "number" IS NULL
+);
+
+-- AlterTable
+ALTER TABLE "Tracking"
+  ALTER COLUMN "lat" DROP NOT NULL,
+  ALTER COLUMN "lat" SET DATA TYPE DOUBLE PRECISION USING pg_temp.parse_bounded("lat", -90, 90),
+  ALTER COLUMN "long" DROP NOT NULL,
+  ALTER COLUMN "long" SET DATA TYPE DOUBLE PRECISION USING pg_temp.parse_bounded("long", -180, 180),
+  ALTER COLUMN "level" SET DATA TYPE DOUBLE PRECISION USING pg_temp.parse_number("level"),
+  ALTER COLUMN "altitude" SET DATA TYPE DOUBLE PRECISION USING pg_temp.parse_number("altitude"),
+  ALTER COLUMN "speed" SET DATA TYPE DOUBLE PRECISION USING pg_temp.parse_number("speed"),
+  ALTER COLUMN "compress" SET DATA TYPE DOUBLE PRECISION USING pg_temp.parse_number("compress"),
+  ALTER COLUMN "weight" SET DATA TYPE DOUBLE PRECISION USING pg_temp.parse_number("weight"),
+  ALTER COLUMN "noOfSatellites" SET DATA TYPE INTEGER USING round(pg_temp.parse_bounded("noOfSatellites", 0, 1000))::INTEGER;
+
+DROP FUNCTION pg_temp.parse_bounded(TEXT, DOUBLE PRECISION, DOUBLE PRECISION);
+DROP FUNCTION pg_temp.parse_number(TEXT);
@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "DeviceLastPosition" (
+    "deviceCode" TEXT NOT NULL,
+    "trackingId" INTEGER NOT NULL,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "long" DOUBLE PRECISION NOT NULL,
+    "speed" DOUBLE PRECISION,
+    "level" DOUBLE PRECISION,
+    "trackedAt" TIMESTAMP(3) NOT NULL,
+    "receivedAt" TIMESTAMP(3) NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DeviceLastPosition_pkey" PRIMARY KEY ("deviceCode")
+);
+
+-- AddForeignKey
+ALTER TABLE "DeviceLastPosition" ADD CONSTRAINT "DeviceLastPosition_deviceCode_fkey" FOREIGN KEY ("deviceCode") REFERENCES "Device"("code") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Backfill from the newest usable fix of each device
+INSERT INTO "DeviceLastPosition" ("deviceCode", "trackingId", "lat", "long", "speed", "level", "trackedAt", "receivedAt", "updatedAt")
+SELECT DISTINCT ON (t."deviceCode")
+    t."deviceCode", t."id", t."lat", t."long", t."speed", t."level", t."trackedAt", t."receivedAt", CURRENT_TIMESTAMP
+FROM "Tracking" t
+JOIN "Device" d ON d."code" = t."deviceCode"
+WHERE t."lat" IS NOT NULL AND t."long" IS NOT NULL
+ORDER BY t."deviceCode", t."trackedAt" DESC, t."id" DESC;
@@ -0,0 +1,46 @@
+-- CreateEnum
+CREATE TYPE "AlertType" AS ENUM ('OVERSPEED');
+
+-- CreateTable
+CREATE TABLE "SpeedRule" (
+    "id" SERIAL NOT NULL,
+    "deviceId" INTEGER NOT NULL,
+    "limit" DOUBLE PRECISION NOT NULL,
+    "minDurationSeconds" INTEGER NOT NULL DEFAULT 0,
+    "activeFrom" TEXT,
+    "activeTo" TEXT,
+    "isActive" BOOLEAN NOT NULL DEFAULT true,
+    "exceedingSince" TIMESTAMP(3),
+    "alerted" BOOLEAN NOT NULL DEFAULT false,
+    "stateChangedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SpeedRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Alert" (
+    "id" SERIAL NOT NULL,
+    "deviceCode" TEXT NOT NULL,
+    "type" "AlertType" NOT NULL,
+    "message" TEXT NOT NULL,
+    "value" DOUBLE PRECISION,
+    "threshold" DOUBLE PRECISION,
+    "trackingId" INTEGER,
+    "lat" DOUBLE PRECISION,
+    "long" DOUBLE PRECISION,
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Alert_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SpeedRule_deviceId_idx" ON "SpeedRule"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "Alert_deviceCode_occurredAt_idx" ON "Alert"("deviceCode", "occurredAt");
+
+-- AddForeignKey
+ALTER TABLE "SpeedRule" ADD CONSTRAINT "SpeedRule_deviceId_fkey" FOREIGN KEY ("deviceId") REFERENCES "Device"("id") ON DELETE CASCADE ON UPDATE CASCADE;
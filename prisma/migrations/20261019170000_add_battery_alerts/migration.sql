@@ -0,0 +1,21 @@
+-- AlterEnum
+ALTER TYPE "AlertType" ADD VALUE 'LOW_BATTERY';
+ALTER TYPE "AlertType" ADD VALUE 'CRITICAL_BATTERY';
+
+-- CreateEnum
+CREATE TYPE "BatteryState" AS ENUM ('NORMAL', 'LOW', 'CRITICAL');
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "batteryLevel" DOUBLE PRECISION,
+ADD COLUMN     "batteryUpdatedAt" TIMESTAMP(3),
+ADD COLUMN     "batteryState" "BatteryState" NOT NULL DEFAULT 'NORMAL',
+ADD COLUMN     "lowBatteryThreshold" DOUBLE PRECISION NOT NULL DEFAULT 20,
+ADD COLUMN     "lowBatteryRearm" DOUBLE PRECISION NOT NULL DEFAULT 25,
+ADD COLUMN     "criticalBatteryThreshold" DOUBLE PRECISION NOT NULL DEFAULT 10,
+ADD COLUMN     "criticalBatteryRearm" DOUBLE PRECISION NOT NULL DEFAULT 15;
+
+-- Seed the latest level from the last known positions
+UPDATE "Device" d
+SET "batteryLevel" = p."level", "batteryUpdatedAt" = p."trackedAt"
+FROM "DeviceLastPosition" p
+WHERE p."deviceCode" = d."code" AND p."level" IS NOT NULL;
@@ -0,0 +1,33 @@
+-- AlterEnum
+ALTER TYPE "AlertType" ADD VALUE 'WEIGHT_DROP';
+
+-- CreateEnum
+CREATE TYPE "WeightEventType" AS ENUM ('LOADING', 'UNLOADING', 'SUDDEN_DROP');
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "weightBaseline" DOUBLE PRECISION,
+ADD COLUMN     "weightPending" DOUBLE PRECISION,
+ADD COLUMN     "weightPendingSince" TIMESTAMP(3),
+ADD COLUMN     "weightUpdatedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "WeightEvent" (
+    "id" SERIAL NOT NULL,
+    "deviceCode" TEXT NOT NULL,
+    "type" "WeightEventType" NOT NULL,
+    "weightBefore" DOUBLE PRECISION NOT NULL,
+    "weightAfter" DOUBLE PRECISION NOT NULL,
+    "change" DOUBLE PRECISION NOT NULL,
+    "speed" DOUBLE PRECISION,
+    "lat" DOUBLE PRECISION NOT NULL,
+    "long" DOUBLE PRECISION NOT NULL,
+    "trackingId" INTEGER,
+    "startedAt" TIMESTAMP(3) NOT NULL,
+    "occurredAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WeightEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WeightEvent_deviceCode_occurredAt_idx" ON "WeightEvent"("deviceCode", "occurredAt");
@@ -0,0 +1,32 @@
+-- AlterEnum
+ALTER TYPE "AlertType" ADD VALUE 'DEVICE_OFFLINE';
+
+-- CreateEnum
+CREATE TYPE "Connectivity" AS ENUM ('ONLINE', 'OFFLINE');
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "reportingIntervalSeconds" INTEGER NOT NULL DEFAULT 60,
+ADD COLUMN     "offlineGraceSeconds" INTEGER NOT NULL DEFAULT 120,
+ADD COLUMN     "lastSeenAt" TIMESTAMP(3),
+ADD COLUMN     "connectivity" "Connectivity" NOT NULL DEFAULT 'OFFLINE',
+ADD COLUMN     "connectivityChangedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ConnectivityEvent" (
+    "id" SERIAL NOT NULL,
+    "deviceCode" TEXT NOT NULL,
+    "status" "Connectivity" NOT NULL,
+    "lastSeenAt" TIMESTAMP(3),
+    "occurredAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ConnectivityEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConnectivityEvent_deviceCode_occurredAt_idx" ON "ConnectivityEvent"("deviceCode", "occurredAt");
+
+-- Seed when each device was last heard from; all start OFFLINE until their next point
+UPDATE "Device" d
+SET "lastSeenAt" = p."receivedAt"
+FROM "DeviceLastPosition" p
+WHERE p."deviceCode" = d."code";
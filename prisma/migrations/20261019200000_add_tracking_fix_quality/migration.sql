@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "FixQuality" AS ENUM ('VALID', 'SUSPECT', 'REJECTED');
+
+-- AlterTable
+ALTER TABLE "Tracking" ADD COLUMN     "quality" "FixQuality" NOT NULL DEFAULT 'VALID',
+ADD COLUMN     "qualityReason" TEXT;
@@ -0,0 +1,36 @@
+-- AlterTable
+ALTER TABLE "User" ADD COLUMN     "retentionDays" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RetentionPolicy" (
+    "role" "UserRole" NOT NULL,
+    "retentionDays" INTEGER NOT NULL,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RetentionPolicy_pkey" PRIMARY KEY ("role")
+);
+
+-- CreateTable
+CREATE TABLE "TrackingArchive" (
+    "id" SERIAL NOT NULL,
+    "deviceCode" TEXT NOT NULL,
+    "day" TIMESTAMP(3) NOT NULL,
+    "fromTrackedAt" TIMESTAMP(3) NOT NULL,
+    "toTrackedAt" TIMESTAMP(3) NOT NULL,
+    "pointCount" INTEGER NOT NULL,
+    "data" BYTEA NOT NULL,
+    "archivedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "restoredAt" TIMESTAMP(3),
+
+    CONSTRAINT "TrackingArchive_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TrackingArchive_deviceCode_day_key" ON "TrackingArchive"("deviceCode", "day");
+
+-- Default policies
+INSERT INTO "RetentionPolicy" ("role", "retentionDays", "updatedAt") VALUES
+    ('USER', 90, CURRENT_TIMESTAMP),
+    ('EMPLOYEE', 180, CURRENT_TIMESTAMP),
+    ('ADMIN', 365, CURRENT_TIMESTAMP),
+    ('SUPER_ADMIN', 730, CURRENT_TIMESTAMP);
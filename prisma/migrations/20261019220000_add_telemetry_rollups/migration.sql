@@ -0,0 +1,112 @@
+-- CreateEnum
+CREATE TYPE "RollupPeriod" AS ENUM ('HOUR', 'DAY');
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "rollupAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "TelemetryRollup" (
+    "id" SERIAL NOT NULL,
+    "deviceCode" TEXT NOT NULL,
+    "period" "RollupPeriod" NOT NULL,
+    "bucket" TIMESTAMP(3) NOT NULL,
+    "pointCount" INTEGER NOT NULL DEFAULT 0,
+    "distance" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "maxSpeed" DOUBLE PRECISION,
+    "speedSum" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "speedCount" INTEGER NOT NULL DEFAULT 0,
+    "movingSeconds" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "minBattery" DOUBLE PRECISION,
+    "maxBattery" DOUBLE PRECISION,
+    "firstAt" TIMESTAMP(3) NOT NULL,
+    "lastAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "TelemetryRollup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "TelemetryRollup_deviceCode_period_bucket_key" ON "TelemetryRollup"("deviceCode", "period", "bucket");
+
+-- Backfill from the stored history, counting the same points as ingest does.
+-- Distance approximates the odometer rules: steps under 15 m or implying more
+-- than 250 km/h are not counted. Moving time is the gap before each point
+-- reported at 5 km/h or more, up to 10 minutes. Buckets are the hours and
+-- days of the owner's timezone (Asia/Kolkata when none is set), stored as UTC.
+WITH "steps" AS (
+    SELECT
+        t."deviceCode",
+        t."trackedAt",
+        t."speed",
+        t."level",
+        t."lat",
+        t."long",
+        LAG(t."lat") OVER w AS "prevLat",
+        LAG(t."long") OVER w AS "prevLong",
+        EXTRACT(EPOCH FROM t."trackedAt" - LAG(t."trackedAt") OVER w) AS "seconds"
+    FROM "Tracking" t
+    WHERE t."quality" <> 'REJECTED' AND t."lat" IS NOT NULL AND t."long" IS NOT NULL
+    WINDOW w AS (PARTITION BY t."deviceCode" ORDER BY t."trackedAt", t."id")
+),
+"measured" AS (
+    SELECT
+        s.*,
+        2 * 6371008.8 * ASIN(LEAST(1, SQRT(
+            POWER(SIN(RADIANS(s."lat" - s."prevLat") / 2), 2) +
+            COS(RADIANS(s."prevLat")) * COS(RADIANS(s."lat")) * POWER(SIN(RADIANS(s."long" - s."prevLong") / 2), 2)
+        ))) AS "metres"
+    FROM "steps" s
+),
+"points" AS (
+    SELECT
+        m."deviceCode",
+        m."trackedAt",
+        m."speed",
+        m."level",
+        COALESCE(o."timezone", 'Asia/Kolkata') AS "timezone",
+        CASE WHEN m."metres" >= 15 AND m."seconds" > 0 AND m."metres" / m."seconds" * 3.6 <= 250
+            THEN m."metres" ELSE 0 END AS "distance",
+        CASE WHEN m."speed" >= 5 AND m."seconds" > 0 AND m."seconds" <= 600
+            THEN m."seconds" ELSE 0 END AS "moving"
+    FROM "measured" m
+    JOIN "Device" d ON d."code" = m."deviceCode"
+    LEFT JOIN "User" o ON o."id" = d."assignedTo"
+),
+"bucketed" AS (
+    SELECT
+        p.*,
+        u."period",
+        DATE_TRUNC(u."unit", p."trackedAt" AT TIME ZONE 'UTC' AT TIME ZONE p."timezone")
+            AT TIME ZONE p."timezone" AT TIME ZONE 'UTC' AS "bucket"
+    FROM "points" p
+    CROSS JOIN (VALUES ('HOUR', 'hour'), ('DAY', 'day')) AS u("period", "unit")
+)
+INSERT INTO "TelemetryRollup" (
+    "deviceCode", "period", "bucket", "pointCount", "distance", "maxSpeed", "speedSum",
+    "speedCount", "movingSeconds", "minBattery", "maxBattery", "firstAt", "lastAt"
+)
+SELECT
+    b."deviceCode",
+    b."period"::"RollupPeriod",
+    b."bucket",
+    COUNT(*),
+    SUM(b."distance"),
+    MAX(b."speed"),
+    COALESCE(SUM(b."speed"), 0),
+    COUNT(b."speed"),
+    SUM(b."moving"),
+    MIN(b."level"),
+    MAX(b."level"),
+    MIN(b."trackedAt"),
+    MAX(b."trackedAt")
+FROM "bucketed" b
+GROUP BY b."deviceCode", b."period", b."bucket";
+
+UPDATE "Device" d
+SET "rollupAt" = r."lastAt"
+FROM (
+    SELECT "deviceCode", MAX("lastAt") AS "lastAt"
+    FROM "TelemetryRollup"
+    WHERE "period" = 'DAY'
+    GROUP BY "deviceCode"
+) r
+WHERE r."deviceCode" = d."code";
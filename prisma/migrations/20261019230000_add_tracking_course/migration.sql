@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Tracking" ADD COLUMN     "course" DOUBLE PRECISION;
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "AlertType" ADD VALUE 'DEVICE_ALARM';
+
+-- AlterTable
+ALTER TABLE "Device" ADD COLUMN     "imei" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Device_imei_key" ON "Device"("imei");
@@ -5,9 +5,11 @@ import { AuthModule } from './auth/auth.module';
 import { PrismaService } from './prisma/prisma.service';
 import { PrismaModule } from './prisma/prisma.module';
 import { DevicesModule } from './devices/devices.module';
+import { MqttModule } from './mqtt/mqtt.module';
+import { TcpModule } from './tcp/tcp.module';
 
 @Module({
-  imports: [AuthModule, PrismaModule, DevicesModule],
+  imports: [AuthModule, PrismaModule, DevicesModule, MqttModule, TcpModule],
   controllers: [AppController],
   providers: [AppService],
 })
@@ -177,7 +177,7 @@ async signout(){
   return { message:'signOut was sucessfull'}
 }
 
-  // Update user profile (name only)
+  // Update user profile (name and timezone)
   async updateProfile(userId: string, updateProfileDto: UpdateProfileDto) {
     try {
       const user = await this.prisma.user.findUnique({
@@ -191,7 +191,8 @@ async signout(){
       const updatedUser = await this.prisma.user.update({
         where: { id: Number(userId) },
         data: {
-          name: updateProfileDto.name
+          name: updateProfileDto.name,
+          timezone: updateProfileDto.timezone
         }
       });
 
@@ -204,7 +205,8 @@ async signout(){
           name: updatedUser.name,
           role: updatedUser.role,
           isPhoneVerified: updatedUser.isPhoneVerified,
-          isActive: updatedUser.isActive
+          isActive: updatedUser.isActive,
+          timezone: updatedUser.timezone
         }
       };
     } catch (error) {
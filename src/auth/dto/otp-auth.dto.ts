@@ -1,4 +1,4 @@
-import { IsNotEmpty, IsString, IsOptional, IsEnum, Matches } from 'class-validator';
+import { IsNotEmpty, IsString, IsOptional, IsEnum, Matches, IsTimeZone } from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
 
 export enum UserRole {
@@ -135,6 +135,15 @@ export class UpdateProfileDto {
   @IsString()
   @IsNotEmpty()
   name: string;
+
+  @ApiProperty({
+    description: 'IANA timezone used for day-based tracking history queries',
+    example: 'Asia/Kolkata',
+    required: false
+  })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
 }
 
 export class AdminCreateUserDto {
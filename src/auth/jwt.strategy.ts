@@ -23,6 +23,7 @@ export class JwtStrategy extends PassportStrategy(Strategy) {
         role: true,
         isPhoneVerified: true,
         isActive: true,
+        timezone: true,
         createdAt: true,
         updatedAt: true,
       },
@@ -0,0 +1,26 @@
+import { Controller, Get, Param, Query, Req, UseGuards } from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { AlertsService } from './alerts.service';
+import { AlertsQueryDto } from './dto/alerts-query.dto';
+
+@ApiTags('Devices')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@Controller('devices/:code/alerts')
+export class AlertsController {
+  constructor(private readonly alertsService: AlertsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'Alerts raised for a device' })
+  findAll(
+    @Param('code') code: string,
+    @Query() query: AlertsQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    const { type, ...window } = query;
+    return this.alertsService.findAll(code, user.id, window, type);
+  }
+}
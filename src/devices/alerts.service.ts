@@ -0,0 +1,55 @@
+import { Injectable } from '@nestjs/common';
+import { AlertType, Tracking } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { HistoryWindowQuery } from '../shared/time-window';
+import { DeviceAccessService } from './device-access.service';
+import { TrackingPointsService } from './tracking-points.service';
+import { TrackingGateway } from './tracking.gateway';
+
+@Injectable()
+export class AlertsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+    private readonly trackingGateway: TrackingGateway,
+  ) {}
+
+  async findAll(
+    code: string,
+    userId: number,
+    query: HistoryWindowQuery,
+    type?: AlertType,
+  ) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+
+    return this.prisma.alert.findMany({
+      where: {
+        deviceCode: code,
+        type,
+        occurredAt: { gte: window.from, lte: window.to },
+      },
+      orderBy: { occurredAt: 'desc' },
+    });
+  }
+
+  // Alarm the tracker raised itself, e.g. SOS or power cut, with the fix it
+  // was reported alongside when there is one
+  async raiseDeviceAlarm(code: string, alarm: string, tracked?: Tracking) {
+    const alert = await this.prisma.alert.create({
+      data: {
+        deviceCode: code,
+        type: 'DEVICE_ALARM',
+        message: `Device reported ${alarm} alarm`,
+        trackingId: tracked?.id,
+        lat: tracked?.lat,
+        long: tracked?.long,
+        occurredAt: tracked?.trackedAt ?? new Date(),
+      },
+    });
+
+    this.trackingGateway.sendAlert(code, alert);
+    return alert;
+  }
+}
@@ -0,0 +1,26 @@
+import { ScheduledHandler } from 'aws-lambda'
+import { prisma } from '../shared/prisma-client'
+import { archiveExpiredTracking } from '../shared/retention'
+import { Logger } from '../shared/utils'
+
+/**
+ * Nightly job moving tracking rows past their retention period to the archive
+ */
+export const handler: ScheduledHandler = async () => {
+  try {
+    const results = await archiveExpiredTracking(prisma)
+
+    if (results.length === 0) {
+      Logger.debug('No tracking rows to archive')
+      return
+    }
+
+    Logger.info('Tracking rows archived', {
+      archived: results.reduce((sum, result) => sum + result.archived, 0),
+      devices: results
+    })
+  } catch (error) {
+    Logger.error('Tracking archival failed', error)
+    throw error
+  }
+}
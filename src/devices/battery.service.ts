@@ -0,0 +1,97 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { BatteryPoint, updateBattery } from '../shared/battery';
+import { HistoryWindowQuery } from '../shared/time-window';
+import { DeviceAccessService } from './device-access.service';
+import { BatterySettingsDto } from './dto/battery-settings.dto';
+import { TrackingPointsService } from './tracking-points.service';
+
+const batterySelect = {
+  batteryLevel: true,
+  batteryUpdatedAt: true,
+  batteryState: true,
+  lowBatteryThreshold: true,
+  lowBatteryRearm: true,
+  criticalBatteryThreshold: true,
+  criticalBatteryRearm: true,
+};
+
+@Injectable()
+export class BatteryService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+  ) {}
+
+  // Called from the ingest path for every stored point
+  async update(code: string, point: BatteryPoint) {
+    return updateBattery(this.prisma, code, point);
+  }
+
+  // Current battery state plus the reported levels over a window, for charting
+  async getBattery(code: string, userId: number, query: HistoryWindowQuery) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+
+    const [device, readings] = await Promise.all([
+      this.prisma.device.findUniqueOrThrow({
+        where: { code },
+        select: batterySelect,
+      }),
+      this.prisma.tracking.findMany({
+        where: {
+          deviceCode: code,
+          level: { not: null },
+          trackedAt: { gte: window.from, lte: window.to },
+        },
+        select: { level: true, trackedAt: true },
+        orderBy: [{ trackedAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    return {
+      code,
+      ...device,
+      series: readings.map((reading) => ({
+        trackedAt: reading.trackedAt,
+        level: reading.level,
+      })),
+    };
+  }
+
+  async updateSettings(code: string, userId: number, dto: BatterySettingsDto) {
+    await this.deviceAccess.getManageableDevice(code, userId);
+
+    const current = await this.prisma.device.findUniqueOrThrow({
+      where: { code },
+      select: batterySelect,
+    });
+    const settings = { ...current, ...dto };
+
+    if (settings.criticalBatteryThreshold >= settings.lowBatteryThreshold) {
+      throw new BadRequestException(
+        'criticalBatteryThreshold must be below lowBatteryThreshold',
+      );
+    }
+    if (
+      settings.lowBatteryRearm <= settings.lowBatteryThreshold ||
+      settings.criticalBatteryRearm <= settings.criticalBatteryThreshold
+    ) {
+      throw new BadRequestException(
+        'Re-arm levels must be above their thresholds',
+      );
+    }
+
+    return this.prisma.device.update({
+      where: { code },
+      data: {
+        lowBatteryThreshold: settings.lowBatteryThreshold,
+        lowBatteryRearm: settings.lowBatteryRearm,
+        criticalBatteryThreshold: settings.criticalBatteryThreshold,
+        criticalBatteryRearm: settings.criticalBatteryRearm,
+      },
+      select: batterySelect,
+    });
+  }
+}
@@ -0,0 +1,99 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  markDeviceSeen,
+  OFFLINE_SWEEP_INTERVAL_MS,
+  sweepOfflineDevices,
+} from '../shared/connectivity';
+import { HistoryWindowQuery } from '../shared/time-window';
+import { DeviceAccessService } from './device-access.service';
+import { ReportingIntervalDto } from './dto/reporting-interval.dto';
+import { TrackingGateway } from './tracking.gateway';
+import { TrackingPointsService } from './tracking-points.service';
+
+@Injectable()
+export class ConnectivityService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(ConnectivityService.name);
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly trackingGateway: TrackingGateway,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+  ) {}
+
+  onModuleInit() {
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error) =>
+        this.logger.error('Offline sweep failed', error),
+      );
+    }, OFFLINE_SWEEP_INTERVAL_MS);
+    // Do not keep the process alive just for the sweep
+    this.sweepTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.sweepTimer);
+  }
+
+  // Called from the ingest path for every stored point
+  async markSeen(code: string, receivedAt: Date) {
+    const event = await markDeviceSeen(this.prisma, code, receivedAt);
+    if (event) {
+      this.trackingGateway.sendConnectivity(code, event);
+    }
+  }
+
+  async sweep() {
+    const transitions = await sweepOfflineDevices(this.prisma);
+
+    for (const { event, alert } of transitions) {
+      this.trackingGateway.sendConnectivity(event.deviceCode, event);
+      this.trackingGateway.sendAlert(event.deviceCode, alert);
+    }
+
+    return transitions.length;
+  }
+
+  async getEvents(code: string, userId: number, query: HistoryWindowQuery) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+
+    return this.prisma.connectivityEvent.findMany({
+      where: {
+        deviceCode: code,
+        occurredAt: { gte: window.from, lte: window.to },
+      },
+      orderBy: { occurredAt: 'desc' },
+    });
+  }
+
+  async updateReportingInterval(
+    code: string,
+    userId: number,
+    dto: ReportingIntervalDto,
+  ) {
+    await this.deviceAccess.getManageableDevice(code, userId);
+
+    return this.prisma.device.update({
+      where: { code },
+      data: {
+        reportingIntervalSeconds: dto.reportingIntervalSeconds,
+        offlineGraceSeconds: dto.offlineGraceSeconds,
+      },
+      select: {
+        code: true,
+        reportingIntervalSeconds: true,
+        offlineGraceSeconds: true,
+        lastSeenAt: true,
+        connectivity: true,
+      },
+    });
+  }
+}
@@ -0,0 +1,70 @@
+import {
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+
+@Injectable()
+export class DeviceAccessService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Device the user owns, has been shared, or can see as SUPER_ADMIN
+  async getViewableDevice(code: string, userId: number) {
+    const { device, role } = await this.loadDeviceAndRole(code, userId);
+
+    if (role !== 'SUPER_ADMIN' && device.assignedTo !== userId) {
+      const isShared = await this.prisma.sharedDevice.findFirst({
+        where: {
+          deviceId: device.id,
+          userId,
+        },
+      });
+
+      if (!isShared) {
+        throw new ForbiddenException(
+          "You are not allowed to view this device's data",
+        );
+      }
+    }
+
+    return device;
+  }
+
+  // Device the user owns or can manage as SUPER_ADMIN; shared users are read-only
+  async getManageableDevice(code: string, userId: number) {
+    const { device, role } = await this.loadDeviceAndRole(code, userId);
+
+    if (role !== 'SUPER_ADMIN' && device.assignedTo !== userId) {
+      throw new ForbiddenException('You are not allowed to manage this device');
+    }
+
+    return device;
+  }
+
+  private async loadDeviceAndRole(code: string, userId: number) {
+    const device = await this.prisma.device.findUnique({
+      where: { code },
+      select: {
+        id: true,
+        code: true,
+        assignedTo: true,
+      },
+    });
+
+    if (!device) {
+      throw new NotFoundException('Device not found');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true },
+    });
+
+    if (!user) {
+      throw new ForbiddenException('User not found');
+    }
+
+    return { device, role: user.role };
+  }
+}
@@ -1,20 +1,66 @@
-import { Controller, Post, Body, Get, Param, Query, Req, UseGuards, NotFoundException, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  Get,
+  Param,
+  Query,
+  Req,
+  UseGuards,
+  NotFoundException,
+  Delete,
+  Put,
+  ParseIntPipe,
+  ValidationPipe,
+  Res,
+} from '@nestjs/common';
 import { DevicesService } from './devices.service';
 import { CreateMultipleDevicesDto } from './dto/create-multiple-devices.dto';
-import { ApiTags, ApiOperation, ApiBody, ApiBearerAuth } from '@nestjs/swagger';
+import { ApiTags, ApiOperation, ApiBody, ApiBearerAuth, ApiQuery } from '@nestjs/swagger';
 import { AssignDeviceDto } from './dto/assign-device.dto';
 import { TrackDeviceDto } from './dto/track-device.dto';
-import { Request } from 'express';
+import { TrackBatchDto } from './dto/track-batch.dto';
+import { TrackNmeaDto } from './dto/track-nmea.dto';
+import { Request, Response } from 'express';
 import { AuthGuard } from '@nestjs/passport';
 import { UpdateIotSimDto } from './dto/update-iot-sim.dto';
 import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
 import { UpdateDeviceNameDto } from './dto/update-device-name.dto';
 import { ShareDeviceDto } from './dto/share-device.dto';
+import { TripsService } from './trips.service';
+import { StopsService } from './stops.service';
+import { OdometerService } from './odometer.service';
+import { ExportService } from './export.service';
+import { PositionsService } from './positions.service';
+import { BatteryService } from './battery.service';
+import { BatterySettingsDto } from './dto/battery-settings.dto';
+import { WeightService } from './weight.service';
+import { WeightEventsQueryDto } from './dto/weight-events-query.dto';
+import { ConnectivityService } from './connectivity.service';
+import { ReportingIntervalDto } from './dto/reporting-interval.dto';
+import { DeviceImeiDto } from './dto/device-imei.dto';
+import { RollupsService } from './rollups.service';
+import { RollupsQueryDto } from './dto/rollups-query.dto';
+import { HeatmapService } from './heatmap.service';
+import { HeatmapQueryDto } from './dto/heatmap-query.dto';
+import { TrackingWindowQueryDto } from './dto/tracking-window-query.dto';
 
 @ApiTags('Devices')
 @Controller('devices')
 export class DevicesController {
-  constructor(private readonly devicesService: DevicesService) {}
+  constructor(
+    private readonly devicesService: DevicesService,
+    private readonly tripsService: TripsService,
+    private readonly stopsService: StopsService,
+    private readonly odometerService: OdometerService,
+    private readonly exportService: ExportService,
+    private readonly positionsService: PositionsService,
+    private readonly batteryService: BatteryService,
+    private readonly weightService: WeightService,
+    private readonly connectivityService: ConnectivityService,
+    private readonly rollupsService: RollupsService,
+    private readonly heatmapService: HeatmapService,
+  ) {}
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @Post('generate')
@@ -37,6 +83,32 @@ export class DevicesController {
     return this.devicesService.findAssignedToUser(Number(userId));
   }
 
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get('heatmap')
+  @ApiOperation({
+    summary: 'Where one or more devices spent their time, as weighted cells',
+  })
+  getHeatmap(
+    @Query(new ValidationPipe({ whitelist: true, transform: true }))
+    query: HeatmapQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.heatmapService.getHeatmap(user.id, query);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get('positions')
+  @ApiOperation({
+    summary: 'Latest position and status of every owned or shared device',
+  })
+  async getFleetPositions(@Req() req: Request) {
+    const user = req.user as { id: number };
+    return this.positionsService.getFleetPositions(user.id);
+  }
+
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @Post('assign')
@@ -51,24 +123,160 @@ export class DevicesController {
   }
   // @UseGuards(JwtAuthGuard)
   @Post('tracking/:code/:iotSimNumber')
-    async trackDevice(
-      @Param('code') code: string,
-      @Param('iotSimNumber') iotSimNumber: string,
-      @Body() dto: TrackDeviceDto
-    ) {
-      return this.devicesService.trackDevice(code, iotSimNumber, dto);
-    }
+  async trackDevice(
+    @Param('code') code: string,
+    @Param('iotSimNumber') iotSimNumber: string,
+    @Body(new ValidationPipe({ whitelist: true, transform: true }))
+    dto: TrackDeviceDto,
+  ) {
+    return this.devicesService.trackDevice(code, iotSimNumber, dto);
+  }
+
+  // @UseGuards(JwtAuthGuard)
+  @Post('tracking/:code/:iotSimNumber/batch')
+  @ApiOperation({ summary: 'Upload tracking points buffered while offline' })
+  async trackDeviceBatch(
+    @Param('code') code: string,
+    @Param('iotSimNumber') iotSimNumber: string,
+    @Body() dto: TrackBatchDto,
+  ) {
+    return this.devicesService.trackDeviceBatch(code, iotSimNumber, dto);
+  }
+
+  // @UseGuards(JwtAuthGuard)
+  @Post('tracking/:code/:iotSimNumber/nmea')
+  @ApiOperation({ summary: 'Upload raw NMEA sentences ($GPRMC, $GPGGA)' })
+  async trackDeviceNmea(
+    @Param('code') code: string,
+    @Param('iotSimNumber') iotSimNumber: string,
+    @Body() dto: TrackNmeaDto,
+  ) {
+    return this.devicesService.trackNmea(code, iotSimNumber, dto);
+  }
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @Get('tracking/:code/history')
+  @ApiQuery({
+    name: 'simplify',
+    required: false,
+    description: 'Douglas-Peucker tolerance in metres',
+  })
+  @ApiQuery({
+    name: 'maxPoints',
+    required: false,
+    description: 'Maximum number of points to return',
+  })
+  @ApiQuery({
+    name: 'cursor',
+    required: false,
+    description: 'nextCursor of the previous page',
+  })
+  @ApiQuery({
+    name: 'limit',
+    required: false,
+    description:
+      'Page size, 100 by default and at most 1000. Pages are only used when cursor or limit is set',
+  })
+  @ApiQuery({
+    name: 'quality',
+    required: false,
+    enum: ['all', 'usable', 'valid'],
+    description:
+      'valid: only good fixes, usable: also suspect ones, all (default)',
+  })
   getTrackingHistory(
     @Param('code') code: string,
-    @Query('date') date: string,
+    @Query() query: TrackingWindowQueryDto,
+    @Query('simplify') simplify: string,
+    @Query('maxPoints') maxPoints: string,
+    @Query('cursor') cursor: string,
+    @Query('limit') limit: string,
+    @Query('quality') quality: string,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.devicesService.getTrackingHistory(
+      code,
+      user.id,
+      query,
+      simplify,
+      maxPoints,
+      cursor,
+      limit,
+      quality,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get('tracking/:code/export')
+  @ApiOperation({ summary: 'Download tracking history as GPX, KML, GeoJSON or CSV' })
+  @ApiQuery({ name: 'format', enum: ['gpx', 'kml', 'geojson', 'csv'] })
+  @ApiQuery({
+    name: 'quality',
+    required: false,
+    enum: ['all', 'usable', 'valid'],
+    description:
+      'valid: only good fixes, usable (default): also suspect ones, all: also rejected ones',
+  })
+  async exportTrackingHistory(
+    @Param('code') code: string,
+    @Query('format') format: string,
+    @Query() query: TrackingWindowQueryDto,
+    @Query('quality') quality: string,
     @Req() req: Request,
+    @Res() res: Response,
   ) {
     const user = req.user as { id: number };
-    return this.devicesService.getTrackingHistory(code, user.id, date);
+    await this.exportService.streamHistory(
+      code,
+      user.id,
+      format,
+      query,
+      res,
+      quality,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get('tracking/:code/trips')
+  @ApiOperation({ summary: 'Trips of a device detected from its tracking history' })
+  getTrips(
+    @Param('code') code: string,
+    @Query() query: TrackingWindowQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.tripsService.getTrips(code, user.id, query);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get('tracking/:code/trips/:tripId')
+  @ApiOperation({ summary: 'A single trip with all of its points' })
+  getTrip(
+    @Param('code') code: string,
+    @Param('tripId', ParseIntPipe) tripId: number,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.tripsService.getTrip(code, tripId, user.id);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get('tracking/:code/stops')
+  @ApiOperation({ summary: 'Places where a device stayed put for at least minMinutes (default 5)' })
+  getStops(
+    @Param('code') code: string,
+    @Query() query: TrackingWindowQueryDto,
+    @Query('minMinutes') minMinutes: string,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.stopsService.getStops(code, user.id, query, minMinutes);
   }
 
 
@@ -80,6 +288,148 @@ export class DevicesController {
     return this.devicesService.updateIotSimNumberByCode(dto.code, dto.iotSimNumber);
   }
 
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get(':code/odometer')
+  @ApiOperation({ summary: 'Odometer and today/week/month distance of a device' })
+  getOdometer(@Param('code') code: string, @Req() req: Request) {
+    const user = req.user as { id: number };
+    return this.odometerService.getOdometer(code, user.id);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get(':code/distance')
+  @ApiOperation({ summary: 'Distance totals of a device per day, week or month' })
+  getDistanceTotals(
+    @Param('code') code: string,
+    @Query('period') period: string,
+    @Query('from') from: string,
+    @Query('to') to: string,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.odometerService.getDistanceTotals(code, user.id, period, from, to);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get(':code/battery')
+  @ApiOperation({
+    summary: 'Battery state and reported levels of a device over time',
+  })
+  getBattery(
+    @Param('code') code: string,
+    @Query() query: TrackingWindowQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.batteryService.getBattery(code, user.id, query);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Put(':code/battery/settings')
+  @ApiOperation({ summary: 'Configure battery alert thresholds of a device' })
+  @ApiBody({ type: BatterySettingsDto })
+  updateBatterySettings(
+    @Param('code') code: string,
+    @Body() dto: BatterySettingsDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.batteryService.updateSettings(code, user.id, dto);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get(':code/weight')
+  @ApiOperation({ summary: 'Load readings of a device over time' })
+  getWeight(
+    @Param('code') code: string,
+    @Query() query: TrackingWindowQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.weightService.getWeight(code, user.id, query);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get(':code/weight/events')
+  @ApiOperation({
+    summary: 'Loading, unloading and in-transit drop events with location',
+  })
+  getWeightEvents(
+    @Param('code') code: string,
+    @Query() query: WeightEventsQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    const { type, ...window } = query;
+    return this.weightService.getEvents(code, user.id, window, type);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get(':code/rollups')
+  @ApiOperation({
+    summary: 'Hourly or daily telemetry totals of a device',
+  })
+  getRollups(
+    @Param('code') code: string,
+    @Query() query: RollupsQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.rollupsService.getRollups(code, user.id, query);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Get(':code/connectivity')
+  @ApiOperation({ summary: 'Online/offline transitions of a device' })
+  getConnectivityEvents(
+    @Param('code') code: string,
+    @Query() query: TrackingWindowQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.connectivityService.getEvents(code, user.id, query);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Put(':code/reporting-interval')
+  @ApiOperation({
+    summary: 'Set how often a device is expected to report',
+  })
+  @ApiBody({ type: ReportingIntervalDto })
+  updateReportingInterval(
+    @Param('code') code: string,
+    @Body() dto: ReportingIntervalDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.connectivityService.updateReportingInterval(code, user.id, dto);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth('JWT-auth')
+  @Put(':code/imei')
+  @ApiOperation({
+    summary: 'Set the IMEI a GT06 or Teltonika tracker logs in with',
+  })
+  @ApiBody({ type: DeviceImeiDto })
+  updateImei(
+    @Param('code') code: string,
+    @Body() dto: DeviceImeiDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.devicesService.updateImei(code, user.id, dto.imei);
+  }
+
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth('JWT-auth')
   @Get(':code')
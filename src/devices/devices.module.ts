@@ -2,11 +2,63 @@ import { Module } from '@nestjs/common';
 import { DevicesService } from './devices.service';
 import { DevicesController } from './devices.controller';
 import { PrismaModule } from '../prisma/prisma.module';
+import { GeocodingModule } from '../geocoding/geocoding.module';
+import { AuthModule } from '../auth/auth.module';
 import { TrackingGateway } from './tracking.gateway';
+import { DeviceAccessService } from './device-access.service';
+import { GeofencesService } from './geofences.service';
+import { GeofencesController } from './geofences.controller';
+import { TrackingPointsService } from './tracking-points.service';
+import { TripsService } from './trips.service';
+import { StopsService } from './stops.service';
+import { OdometerService } from './odometer.service';
+import { ExportService } from './export.service';
+import { PositionsService } from './positions.service';
+import { SpeedRulesService } from './speed-rules.service';
+import { SpeedRulesController } from './speed-rules.controller';
+import { AlertsService } from './alerts.service';
+import { AlertsController } from './alerts.controller';
+import { BatteryService } from './battery.service';
+import { WeightService } from './weight.service';
+import { ConnectivityService } from './connectivity.service';
+import { GpsQualityService } from './gps-quality.service';
+import { RetentionService } from './retention.service';
+import { RollupsService } from './rollups.service';
+import { HeatmapService } from './heatmap.service';
+import { PlaybackService } from './playback.service';
+import { RetentionController } from './retention.controller';
 
 @Module({
-  imports: [PrismaModule],
-  controllers: [DevicesController],
-  providers: [DevicesService, TrackingGateway],
+  imports: [PrismaModule, GeocodingModule, AuthModule],
+  controllers: [
+    DevicesController,
+    GeofencesController,
+    SpeedRulesController,
+    AlertsController,
+    RetentionController,
+  ],
+  providers: [
+    DevicesService,
+    TrackingGateway,
+    DeviceAccessService,
+    GeofencesService,
+    TrackingPointsService,
+    TripsService,
+    StopsService,
+    OdometerService,
+    ExportService,
+    PositionsService,
+    SpeedRulesService,
+    AlertsService,
+    BatteryService,
+    WeightService,
+    ConnectivityService,
+    GpsQualityService,
+    RetentionService,
+    RollupsService,
+    HeatmapService,
+    PlaybackService,
+  ],
+  exports: [DevicesService, ConnectivityService, AlertsService],
 })
 export class DevicesModule {}
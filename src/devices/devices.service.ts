@@ -1,13 +1,61 @@
-import { BadRequestException, ConflictException, ForbiddenException, Injectable, NotFoundException } from '@nestjs/common';
+import { BadRequestException, ConflictException, Injectable, NotFoundException } from '@nestjs/common';
+import { FixQuality, Prisma, Tracking } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
 import { PrismaService } from '../prisma/prisma.service';
 import { TrackDeviceDto } from './dto/track-device.dto';
+import { TrackBatchDto, TrackBatchPointDto } from './dto/track-batch.dto';
+import { MAX_NMEA_SENTENCES, TrackNmeaDto } from './dto/track-nmea.dto';
 import { TrackingGateway } from './tracking.gateway';
+import { DeviceAccessService } from './device-access.service';
+import { GeofencesService } from './geofences.service';
+import { OdometerService } from './odometer.service';
+import { PositionsService } from './positions.service';
+import { SpeedRulesService } from './speed-rules.service';
+import { BatteryService } from './battery.service';
+import { WeightService } from './weight.service';
+import { RollupsService } from './rollups.service';
+import { ConnectivityService } from './connectivity.service';
+import { GpsQualityService } from './gps-quality.service';
+import { toGeoPoint } from '../shared/geo';
+import { isLatestFix, resolveFixTime } from '../shared/fix-time';
+import { parseQualityFilter } from '../shared/gps-quality';
+import { nmeaToFixes } from '../shared/nmea';
+import { isSimplifyRequested, parseSimplifyOptions, simplifyTrack } from '../shared/simplify';
+import { HistoryWindowQuery } from '../shared/time-window';
+import {
+  decodeCursor,
+  keysetOrderBy,
+  keysetWhere,
+  paginate,
+  parseLimit,
+} from '../shared/cursor';
+import { TrackingPointsService } from './tracking-points.service';
+
+export interface TrackBatchResult {
+  index: number;
+  status: 'created' | 'rejected';
+  id?: number;
+  quality?: FixQuality;
+  errors?: string[];
+}
 
 @Injectable()
 export class DevicesService {
   constructor(
     private readonly prisma: PrismaService,
-    private readonly trackingGateway: TrackingGateway
+    private readonly trackingGateway: TrackingGateway,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly geofencesService: GeofencesService,
+    private readonly odometerService: OdometerService,
+    private readonly positionsService: PositionsService,
+    private readonly speedRulesService: SpeedRulesService,
+    private readonly batteryService: BatteryService,
+    private readonly weightService: WeightService,
+    private readonly rollupsService: RollupsService,
+    private readonly connectivityService: ConnectivityService,
+    private readonly gpsQualityService: GpsQualityService,
+    private readonly trackingPoints: TrackingPointsService,
   ) {}
 
   async createMultiple(count: number) {
@@ -151,6 +199,192 @@ async findAll() {
   }
 
   async trackDevice(code: string, iotSimNumber: string, dto: TrackDeviceDto) {
+    const device = await this.getTrackableDevice(code, iotSimNumber);
+
+    const receivedAt = new Date();
+    const { fixTime, error } = resolveFixTime(dto.fixTime, receivedAt);
+    if (error || !fixTime) {
+      throw new BadRequestException(error);
+    }
+
+    const { quality, reason } = await this.gpsQualityService.classify(code, {
+      lat: dto.lat,
+      long: dto.long,
+      noOfSatellites: dto.noOfSatellites ?? null,
+      trackedAt: fixTime,
+    });
+
+    const tracked = await this.prisma.tracking.create({
+      data: {
+        deviceCode: code,
+        iotSimNumber: iotSimNumber,
+        userId: device.assignedTo,
+        lat: dto.lat,
+        long: dto.long,
+        level: dto.level,
+        altitude: dto.altitude,
+        speed: dto.speed,
+        course: dto.course,
+        compress: dto.compress,
+        weight: dto.weight,
+        noOfSatellites: dto.noOfSatellites,
+        trackedAt: fixTime,
+        receivedAt,
+        quality,
+        qualityReason: reason,
+      },
+    });
+
+    if (
+      quality !== 'REJECTED' &&
+      (await isLatestFix(this.prisma, code, tracked))
+    ) {
+      this.trackingGateway.sendLocationUpdate(code, tracked);
+    }
+
+    await this.processTrackedPoint(code, tracked);
+
+    return tracked;
+  }
+
+  // Store points a device buffered while offline, each with its own fix time
+  async trackDeviceBatch(
+    code: string,
+    iotSimNumber: string,
+    dto: TrackBatchDto,
+  ) {
+    const device = await this.getTrackableDevice(code, iotSimNumber);
+    const receivedAt = new Date();
+
+    const results: TrackBatchResult[] = [];
+    const accepted: {
+      index: number;
+      point: TrackBatchPointDto;
+      fixTime: Date;
+    }[] = [];
+
+    for (const [index, raw] of dto.points.entries()) {
+      if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+        results[index] = {
+          index,
+          status: 'rejected',
+          errors: ['point must be an object'],
+        };
+        continue;
+      }
+
+      const point = plainToInstance(TrackBatchPointDto, raw);
+      const errors = await validate(point, { whitelist: true });
+      const messages = errors.flatMap((error) =>
+        Object.values(error.constraints ?? {}),
+      );
+
+      const { fixTime, error } = resolveFixTime(point.fixTime, receivedAt);
+      if (!messages.length && error) {
+        messages.push(error);
+      }
+
+      if (messages.length || !fixTime) {
+        results[index] = { index, status: 'rejected', errors: messages };
+      } else {
+        accepted.push({ index, point, fixTime });
+      }
+    }
+
+    const classifications = await this.gpsQualityService.classifyBatch(
+      code,
+      accepted.map(({ point, fixTime }) => ({
+        lat: point.lat,
+        long: point.long,
+        noOfSatellites: point.noOfSatellites ?? null,
+        trackedAt: fixTime,
+      })),
+    );
+
+    const stored = await this.prisma.$transaction(
+      accepted.map(({ point, fixTime }, i) =>
+        this.prisma.tracking.create({
+          data: {
+            deviceCode: code,
+            iotSimNumber: iotSimNumber,
+            userId: device.assignedTo,
+            lat: point.lat,
+            long: point.long,
+            level: point.level,
+            altitude: point.altitude,
+            speed: point.speed,
+            course: point.course,
+            compress: point.compress,
+            weight: point.weight,
+            noOfSatellites: point.noOfSatellites,
+            trackedAt: fixTime,
+            receivedAt,
+            quality: classifications[i].quality,
+            qualityReason: classifications[i].reason,
+          },
+        }),
+      ),
+    );
+
+    stored.forEach((tracked, i) => {
+      const { index } = accepted[i];
+      results[index] = {
+        index,
+        status: 'created',
+        id: tracked.id,
+        quality: tracked.quality,
+      };
+    });
+
+    // Replay in fix order so odometer and geofence state advance correctly
+    const chronological = [...stored].sort(
+      (a, b) => a.trackedAt.getTime() - b.trackedAt.getTime() || a.id - b.id,
+    );
+    for (const [i, tracked] of chronological.entries()) {
+      await this.processTrackedPoint(
+        code,
+        tracked,
+        chronological.slice(i + 1).map((later) => later.id),
+      );
+    }
+
+    // Only the newest fix is of interest to live viewers, and only if nothing
+    // more recent was already stored
+    const newest = chronological
+      .filter((tracked) => tracked.quality !== 'REJECTED')
+      .pop();
+    if (newest && (await isLatestFix(this.prisma, code, newest))) {
+      this.trackingGateway.sendLocationUpdate(code, newest);
+    }
+
+    return {
+      created: stored.length,
+      rejected: dto.points.length - stored.length,
+      results,
+    };
+  }
+
+  // Decode raw NMEA from trackers that cannot send JSON and store the fixes
+  // like a buffered batch. `sentences` reports what became of every line.
+  async trackNmea(code: string, iotSimNumber: string, dto: TrackNmeaDto) {
+    const lines = dto.sentences
+      .flatMap((entry) => entry.split(/\r?\n/))
+      .filter((line) => line.trim());
+    if (lines.length > MAX_NMEA_SENTENCES) {
+      throw new BadRequestException(
+        `At most ${MAX_NMEA_SENTENCES} sentences can be sent at once`,
+      );
+    }
+
+    const { fixes, results } = nmeaToFixes(lines, new Date());
+    const batch = await this.trackDeviceBatch(code, iotSimNumber, {
+      points: fixes.map((fix) => ({ ...fix })),
+    });
+
+    return { ...batch, sentences: results };
+  }
+
+  private async getTrackableDevice(code: string, iotSimNumber: string) {
     const device = await this.prisma.device.findUnique({
       where: { code, iotSimNumber },
       select: {
@@ -163,87 +397,155 @@ async findAll() {
     }
 
     if (!device.assignedTo) {
-      throw new BadRequestException('This device is not assigned, cannot track.');
+      throw new BadRequestException(
+        'This device is not assigned, cannot track.',
+      );
     }
 
-    const tracked = await this.prisma.tracking.create({
-    data: {
-      deviceCode: code,
-      iotSimNumber: iotSimNumber,
-      userId: device.assignedTo,
-      lat: dto.lat,
-      long: dto.long,
-      level: dto.level,
-      altitude: dto.altitude,
-      speed: dto.speed,
-      compress: dto.compress,
-      weight: dto.weight,
-      noOfSatellites: dto.noOfSatellites,
-    },
-  });
-   this.trackingGateway.sendLocationUpdate(code, tracked);
-    return tracked;
-}
+    return { assignedTo: device.assignedTo };
+  }
 
-async getTrackingHistory(code: string, userId: number, date?: string) {
-  const device = await this.prisma.device.findUnique({
-    where: { code },
-    select: {
-      id: true,
-      assignedTo: true,
-    },
-  });
+  // Connectivity, last position, odometer, rollup, geofence, alert and load
+  // checks for every stored point. Rejected fixes only count as a sign of life.
+  // `pending` are stored points of the same batch processed after this one.
+  private async processTrackedPoint(
+    code: string,
+    tracked: Tracking,
+    pending: number[] = [],
+  ) {
+    await this.connectivityService.markSeen(code, tracked.receivedAt);
+
+    const point = toGeoPoint(tracked);
+    if (!point || tracked.quality === 'REJECTED') return;
+
+    await this.positionsService.update(tracked);
+
+    const distance = await this.odometerService.advance(
+      code,
+      { ...point, id: tracked.id, trackedAt: tracked.trackedAt },
+      pending,
+    );
+
+    await this.rollupsService.update(code, {
+      speed: tracked.speed,
+      level: tracked.level,
+      distance,
+      trackedAt: tracked.trackedAt,
+    });
 
-  if (!device) {
-    throw new NotFoundException('Device not found');
-  }
+    const events = await this.geofencesService.evaluate(code, {
+      ...point,
+      trackingId: tracked.id,
+      occurredAt: tracked.trackedAt,
+    });
+    events.forEach((event) =>
+      this.trackingGateway.sendGeofenceEvent(code, event),
+    );
+
+    const alerts = await this.speedRulesService.evaluate(code, {
+      ...point,
+      trackingId: tracked.id,
+      speed: tracked.speed,
+      trackedAt: tracked.trackedAt,
+    });
+    alerts.forEach((alert) => this.trackingGateway.sendAlert(code, alert));
 
-  const user = await this.prisma.user.findUnique({
-    where: { id: userId },
-    select: { role: true },
-  });
+    const batteryAlert = await this.batteryService.update(code, {
+      ...point,
+      trackingId: tracked.id,
+      level: tracked.level,
+      trackedAt: tracked.trackedAt,
+    });
+    if (batteryAlert) {
+      this.trackingGateway.sendAlert(code, batteryAlert);
+    }
 
-  if (!user) {
-    throw new ForbiddenException('User not found');
+    const weight = await this.weightService.update(code, {
+      ...point,
+      trackingId: tracked.id,
+      weight: tracked.weight,
+      speed: tracked.speed,
+      trackedAt: tracked.trackedAt,
+    });
+    if (weight.event) {
+      this.trackingGateway.sendWeightEvent(code, weight.event);
+    }
+    if (weight.alert) {
+      this.trackingGateway.sendAlert(code, weight.alert);
+    }
   }
 
-  // if (user.role !== 'SUPER_ADMIN' && device.assignedTo !== userId) {
-  //   throw new ForbiddenException('You are not allowed to view this device\'s data');
-  // }
+  async getTrackingHistory(
+    code: string,
+    userId: number,
+    query: HistoryWindowQuery,
+    simplify?: string,
+    maxPoints?: string,
+    cursor?: string,
+    limit?: string,
+    quality?: string,
+  ) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+
+    const qualityFilter = parseQualityFilter(quality);
+    if (qualityFilter.error) {
+      throw new BadRequestException(qualityFilter.error);
+    }
 
-  if (user.role !== 'SUPER_ADMIN' && device.assignedTo !== userId) {
-    const isShared = await this.prisma.sharedDevice.findFirst({
-      where: {
-        deviceId: device.id,
-        userId,
+    const { options: simplifyOptions, error } = parseSimplifyOptions(
+      simplify,
+      maxPoints,
+    );
+    if (error) {
+      throw new BadRequestException(error);
+    }
+
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+
+    const whereCondition: Prisma.TrackingWhereInput = {
+      deviceCode: code,
+      trackedAt: {
+        gte: window.from,
+        lte: window.to,
       },
-    });
+      ...qualityFilter.where,
+    };
+
+    // Paging is opt-in: without cursor or limit the whole range comes back as
+    // a bare array, the shape clients had before paging existed. Simplification
+    // needs the whole range too, so it is returned as a single page.
+    const paged = cursor !== undefined || limit !== undefined;
+    if (!paged || isSimplifyRequested(simplifyOptions)) {
+      const history = await this.prisma.tracking.findMany({
+        where: whereCondition,
+        orderBy: keysetOrderBy('asc'),
+      });
+      const points = isSimplifyRequested(simplifyOptions)
+        ? simplifyTrack(history, simplifyOptions)
+        : history;
 
-if (!isShared) {
-      throw new ForbiddenException('You are not allowed to view this device\'s data');
+      return paged ? { history: points, nextCursor: null } : points;
     }
-}
 
+    const after = cursor ? decodeCursor(cursor) : null;
+    if (cursor && !after) {
+      throw new BadRequestException('Invalid cursor');
+    }
 
-  const whereCondition: any = {
-    deviceCode: code,
-  };
+    const pageSize = parseLimit(limit);
+    const rows = await this.prisma.tracking.findMany({
+      where: {
+        ...whereCondition,
+        ...keysetWhere(after, 'asc'),
+      },
+      orderBy: keysetOrderBy('asc'),
+      take: pageSize + 1,
+    });
 
-  if (date) {
-    const start = new Date(`${date}T00:00:00.000Z`);
-    const end = new Date(`${date}T23:59:59.999Z`);
-    whereCondition.trackedAt = {
-      gte: start,
-      lte: end,
-    };
+    const { items, nextCursor } = paginate(rows, pageSize);
+    return { history: items, nextCursor };
   }
 
-  return this.prisma.tracking.findMany({
-    where: whereCondition,
-    orderBy: { trackedAt: 'asc' },
-  });
-}
-
 
 
 async updateIotSimNumberByCode(code: string, iotSimNumber: string) {
@@ -263,26 +565,30 @@ async updateIotSimNumberByCode(code: string, iotSimNumber: string) {
   });
 }
 
-async getDeviceByCode(code: string) {
-  const device = await this.prisma.device.findUnique({
-    where: { code },
-    select: {
-      code: true,
-      deviceName: true,
-      iotSimNumber: true,
-      assignedTo: true,
-      assignedAt: true,
-      status: true,
-      createdAt: true,
-    },
-  });
+  async getDeviceByCode(code: string) {
+    const device = await this.prisma.device.findUnique({
+      where: { code },
+      select: {
+        code: true,
+        deviceName: true,
+        iotSimNumber: true,
+        imei: true,
+        assignedTo: true,
+        assignedAt: true,
+        status: true,
+        createdAt: true,
+        lastSeenAt: true,
+        connectivity: true,
+        reportingIntervalSeconds: true,
+      },
+    });
 
-  if (!device) {
-    throw new NotFoundException('Device not found');
-  }
+    if (!device) {
+      throw new NotFoundException('Device not found');
+    }
 
-  return device;
-}
+    return device;
+  }
 
 async updateDeviceName(code: string, deviceName: string) {
   const updated = await this.prisma.device.update({
@@ -292,6 +598,29 @@ async updateDeviceName(code: string, deviceName: string) {
   return updated;
 }
 
+  // IMEI binary trackers (GT06, Teltonika) identify themselves with over TCP
+  async updateImei(code: string, userId: number, imei: string) {
+    await this.deviceAccess.getManageableDevice(code, userId);
+
+    try {
+      return await this.prisma.device.update({
+        where: { code },
+        data: { imei },
+        select: { code: true, imei: true },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        throw new ConflictException(
+          'IMEI is already registered to another device',
+        );
+      }
+      throw error;
+    }
+  }
+
   // Share a device
   async shareDevice(deviceId: number, phoneNumber: string) {
 
@@ -0,0 +1,11 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { AlertType } from '@prisma/client';
+import { IsEnum, IsOptional } from 'class-validator';
+import { TrackingWindowQueryDto } from './tracking-window-query.dto';
+
+export class AlertsQueryDto extends TrackingWindowQueryDto {
+  @ApiPropertyOptional({ enum: AlertType, description: 'Only this alert type' })
+  @IsOptional()
+  @IsEnum(AlertType)
+  type?: AlertType;
+}
@@ -0,0 +1,30 @@
+import { plainToInstance } from 'class-transformer';
+import { validate } from 'class-validator';
+import { BatterySettingsDto } from './battery-settings.dto';
+
+const check = async (body: object) => {
+  const errors = await validate(plainToInstance(BatterySettingsDto, body));
+  return errors.flatMap((error) => Object.values(error.constraints ?? {}));
+};
+
+describe('BatterySettingsDto', () => {
+  it('accepts a partial update', async () => {
+    expect(await check({ lowBatteryThreshold: 30 })).toEqual([]);
+    expect(await check({})).toEqual([]);
+  });
+
+  it('rejects null instead of clearing a threshold', async () => {
+    expect(await check({ lowBatteryThreshold: null })).toContain(
+      'lowBatteryThreshold must be a number conforming to the specified constraints',
+    );
+    expect(await check({ criticalBatteryRearm: null })).toContain(
+      'criticalBatteryRearm must be a number conforming to the specified constraints',
+    );
+  });
+
+  it('rejects levels outside 0 to 100', async () => {
+    expect(await check({ lowBatteryRearm: 101 })).toEqual([
+      'lowBatteryRearm must not be greater than 100',
+    ]);
+  });
+});
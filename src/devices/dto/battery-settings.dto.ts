@@ -0,0 +1,47 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsNumber, Max, Min, ValidateIf } from 'class-validator';
+
+// Unlike @IsOptional() this only skips absent fields: null is checked, and
+// rejected, rather than written over a required column
+const Optional = () =>
+  ValidateIf((_: unknown, value: unknown) => value !== undefined);
+
+// Battery alert thresholds in percent
+export class BatterySettingsDto {
+  @ApiPropertyOptional({ example: 20, description: 'Raise LOW at or below' })
+  @Optional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  lowBatteryThreshold?: number;
+
+  @ApiPropertyOptional({
+    example: 25,
+    description: 'Level the battery must recover to before LOW re-arms',
+  })
+  @Optional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  lowBatteryRearm?: number;
+
+  @ApiPropertyOptional({
+    example: 10,
+    description: 'Raise CRITICAL at or below',
+  })
+  @Optional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  criticalBatteryThreshold?: number;
+
+  @ApiPropertyOptional({
+    example: 15,
+    description: 'Level the battery must recover to before CRITICAL re-arms',
+  })
+  @Optional()
+  @IsNumber()
+  @Min(0)
+  @Max(100)
+  criticalBatteryRearm?: number;
+}
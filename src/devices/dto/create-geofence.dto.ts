@@ -0,0 +1,81 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+
+export class GeofenceVertexDto {
+  @ApiProperty({ example: 28.6139 })
+  @IsLatitude()
+  lat: number;
+
+  @ApiProperty({ example: 77.209 })
+  @IsLongitude()
+  long: number;
+}
+
+export class CreateGeofenceDto {
+  @ApiProperty({ example: 'Home', description: 'Display name of the zone' })
+  @IsString()
+  @IsNotEmpty()
+  name: string;
+
+  @ApiProperty({ enum: ['CIRCLE', 'POLYGON'], example: 'CIRCLE' })
+  @IsIn(['CIRCLE', 'POLYGON'])
+  type: 'CIRCLE' | 'POLYGON';
+
+  @ApiPropertyOptional({
+    example: 28.6139,
+    description: 'Centre latitude (CIRCLE only)',
+  })
+  @ValidateIf((o: CreateGeofenceDto) => o.type === 'CIRCLE')
+  @IsLatitude()
+  centerLat?: number;
+
+  @ApiPropertyOptional({
+    example: 77.209,
+    description: 'Centre longitude (CIRCLE only)',
+  })
+  @ValidateIf((o: CreateGeofenceDto) => o.type === 'CIRCLE')
+  @IsLongitude()
+  centerLong?: number;
+
+  @ApiPropertyOptional({
+    example: 250,
+    description: 'Radius in metres (CIRCLE only)',
+  })
+  @ValidateIf((o: CreateGeofenceDto) => o.type === 'CIRCLE')
+  @IsNumber()
+  @Min(10)
+  @Max(100000)
+  radius?: number;
+
+  @ApiPropertyOptional({
+    type: [GeofenceVertexDto],
+    description: 'Polygon vertices in drawing order, at least 3 (POLYGON only)',
+  })
+  @ValidateIf((o: CreateGeofenceDto) => o.type === 'POLYGON')
+  @IsArray()
+  @ArrayMinSize(3)
+  @ValidateNested({ each: true })
+  @Type(() => GeofenceVertexDto)
+  polygon?: GeofenceVertexDto[];
+
+  @ApiPropertyOptional({ example: true, default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
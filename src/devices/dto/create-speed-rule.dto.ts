@@ -0,0 +1,52 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+const CLOCK_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export class CreateSpeedRuleDto {
+  @ApiProperty({ example: 80, description: 'Speed limit in km/h' })
+  @IsNumber()
+  @Min(1)
+  @Max(500)
+  limit: number;
+
+  @ApiPropertyOptional({
+    example: 30,
+    default: 0,
+    description: 'Seconds the limit must be exceeded before alerting',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(3600)
+  minDurationSeconds?: number;
+
+  @ApiPropertyOptional({
+    example: '22:00',
+    description: "Start of the daily active window (HH:mm, owner's timezone)",
+  })
+  @IsOptional()
+  @Matches(CLOCK_TIME, { message: 'activeFrom must be in HH:mm format' })
+  activeFrom?: string;
+
+  @ApiPropertyOptional({
+    example: '06:00',
+    description: 'End of the daily active window; may wrap past midnight',
+  })
+  @IsOptional()
+  @Matches(CLOCK_TIME, { message: 'activeTo must be in HH:mm format' })
+  activeTo?: string;
+
+  @ApiPropertyOptional({ example: true, default: true })
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
@@ -0,0 +1,11 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Matches } from 'class-validator';
+
+export class DeviceImeiDto {
+  @ApiProperty({
+    example: '356307042441013',
+    description: 'IMEI a GT06 or Teltonika tracker logs in with',
+  })
+  @Matches(/^\d{15,17}$/, { message: 'IMEI must be 15 to 17 digits' })
+  imei: string;
+}
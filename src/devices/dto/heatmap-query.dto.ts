@@ -0,0 +1,32 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsOptional, IsString, Max, Min } from 'class-validator';
+import { HEATMAP_WEIGHTS, HeatmapWeight } from '../../shared/heatmap';
+import { TrackingWindowQueryDto } from './tracking-window-query.dto';
+
+export class HeatmapQueryDto extends TrackingWindowQueryDto {
+  @ApiPropertyOptional({
+    example: 'ABC123,DEF456',
+    description:
+      'Comma-separated device codes, every owned or shared device by default',
+  })
+  @IsOptional()
+  @IsString()
+  codes?: string;
+
+  @ApiPropertyOptional({ example: 500, description: 'Cell edge in metres' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(50)
+  @Max(50000)
+  cellSize?: number;
+
+  @ApiPropertyOptional({
+    enum: HEATMAP_WEIGHTS,
+    description: 'Weight cells by number of fixes (default) or time spent',
+  })
+  @IsOptional()
+  @IsIn(HEATMAP_WEIGHTS)
+  weight?: HeatmapWeight;
+}
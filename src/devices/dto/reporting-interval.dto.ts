@@ -0,0 +1,23 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class ReportingIntervalDto {
+  @ApiProperty({
+    example: 60,
+    description: 'Seconds between points the tracker is expected to send',
+  })
+  @IsInt()
+  @Min(5)
+  @Max(86400)
+  reportingIntervalSeconds: number;
+
+  @ApiPropertyOptional({
+    example: 120,
+    description: 'Extra seconds of silence before the device is offline',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(86400)
+  offlineGraceSeconds?: number;
+}
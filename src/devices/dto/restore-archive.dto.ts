@@ -0,0 +1,15 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsISO8601 } from 'class-validator';
+
+export class RestoreArchiveDto {
+  @ApiProperty({ example: '2025-01-01T00:00:00Z' })
+  @IsISO8601()
+  from: string;
+
+  @ApiProperty({
+    example: '2025-01-31T23:59:59Z',
+    description: 'Range end, inclusive',
+  })
+  @IsISO8601()
+  to: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, Max, Min } from 'class-validator';
+
+export class RetentionPolicyDto {
+  @ApiProperty({
+    example: 90,
+    description: 'Days of tracking history kept before archival',
+  })
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  retentionDays: number;
+}
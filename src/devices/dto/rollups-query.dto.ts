@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { RollupPeriod } from '@prisma/client';
+import { IsEnum, IsOptional } from 'class-validator';
+import { TrackingWindowQueryDto } from './tracking-window-query.dto';
+
+export class RollupsQueryDto extends TrackingWindowQueryDto {
+  @ApiPropertyOptional({
+    enum: RollupPeriod,
+    description:
+      "Bucket size, DAY by default; buckets follow the owner's timezone",
+  })
+  @IsOptional()
+  @IsEnum(RollupPeriod)
+  period?: RollupPeriod;
+}
@@ -0,0 +1,28 @@
+import { ApiProperty, OmitType } from '@nestjs/swagger';
+import {
+  ArrayMaxSize,
+  ArrayMinSize,
+  IsArray,
+  IsISO8601,
+} from 'class-validator';
+import { TrackDeviceDto } from './track-device.dto';
+
+export const MAX_TRACK_BATCH_SIZE = 500;
+
+export class TrackBatchPointDto extends OmitType(TrackDeviceDto, [
+  'fixTime',
+] as const) {
+  // Buffered points must carry their own fix time
+  @ApiProperty({ example: '2025-07-01T10:15:30Z' })
+  @IsISO8601()
+  fixTime: string;
+}
+
+export class TrackBatchDto {
+  // Points are validated one by one so a bad fix does not reject the batch
+  @ApiProperty({ type: [TrackBatchPointDto] })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_TRACK_BATCH_SIZE)
+  points: Record<string, unknown>[];
+}
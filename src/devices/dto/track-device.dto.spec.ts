@@ -0,0 +1,51 @@
+import { validateTrackPoint } from './track-device.dto';
+
+describe('validateTrackPoint', () => {
+  it('converts numeric strings', async () => {
+    const { dto, errors } = await validateTrackPoint({
+      lat: '12.9716',
+      long: ' 77.5946 ',
+      level: '87',
+    });
+    expect(errors).toEqual([]);
+    expect(dto).toMatchObject({ lat: 12.9716, long: 77.5946, level: 87 });
+  });
+
+  it.each(['', ' '])('rejects %p as a position', async (blank) => {
+    const { dto, errors } = await validateTrackPoint({
+      lat: blank,
+      long: blank,
+    });
+    expect(dto).toBeUndefined();
+    expect(errors).toEqual(
+      expect.arrayContaining([
+        'lat must be a number conforming to the specified constraints',
+        'long must be a number conforming to the specified constraints',
+      ]),
+    );
+  });
+
+  it.each(['', ' '])('treats %p telemetry as missing', async (blank) => {
+    const { dto, errors } = await validateTrackPoint({
+      lat: 12.9716,
+      long: 77.5946,
+      level: blank,
+      speed: blank,
+    });
+    expect(errors).toEqual([]);
+    expect(dto?.level).toBeUndefined();
+    expect(dto?.speed).toBeUndefined();
+  });
+
+  it('rejects text that is not a number', async () => {
+    const { dto, errors } = await validateTrackPoint({
+      lat: 12.9716,
+      long: 77.5946,
+      level: 'full',
+    });
+    expect(dto).toBeUndefined();
+    expect(errors).toContain(
+      'level must be a number conforming to the specified constraints',
+    );
+  });
+});
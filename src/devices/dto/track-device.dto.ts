@@ -1,34 +1,125 @@
-import { IsLatitude, IsLongitude, IsOptional, IsString } from 'class-validator';
-import { ApiPropertyOptional } from '@nestjs/swagger';
+import { plainToInstance, Transform } from 'class-transformer';
+import {
+  IsISO8601,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+  validate,
+} from 'class-validator';
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { TELEMETRY_RANGES } from '../../shared/telemetry';
+
+// Numeric strings (as sent by older firmware) are converted before validation.
+// Blank strings count as missing, as in the Lambda's parseTelemetry, not as 0.
+const NumericValue = () =>
+  Transform(
+    ({ obj, key }: { obj: Record<string, unknown>; key: string }) => {
+      const value = obj[key];
+      if (typeof value !== 'string') return value;
+      return value.trim() === '' ? undefined : Number(value);
+    },
+    { toClassOnly: true },
+  );
 
 export class TrackDeviceDto {
-  @IsLatitude()
-  lat: string;
+  @ApiProperty({ example: 12.9716, description: 'Latitude in degrees' })
+  @NumericValue()
+  @IsNumber()
+  @Min(TELEMETRY_RANGES.lat.min)
+  @Max(TELEMETRY_RANGES.lat.max)
+  lat: number;
+
+  @ApiProperty({ example: 77.5946, description: 'Longitude in degrees' })
+  @NumericValue()
+  @IsNumber()
+  @Min(TELEMETRY_RANGES.long.min)
+  @Max(TELEMETRY_RANGES.long.max)
+  long: number;
+
+  @ApiPropertyOptional({ example: 87, description: 'Battery level, percent' })
+  @IsOptional()
+  @NumericValue()
+  @IsNumber()
+  @Min(TELEMETRY_RANGES.level.min)
+  @Max(TELEMETRY_RANGES.level.max)
+  level?: number;
 
-  @IsLongitude()
-  long: string;
+  @ApiPropertyOptional({ example: 920, description: 'Altitude in metres' })
+  @IsOptional()
+  @NumericValue()
+  @IsNumber()
+  @Min(TELEMETRY_RANGES.altitude.min)
+  @Max(TELEMETRY_RANGES.altitude.max)
+  altitude?: number;
 
+  @ApiPropertyOptional({ example: 42.5, description: 'Speed in km/h' })
   @IsOptional()
-  @IsString()
-  level?: string;
+  @NumericValue()
+  @IsNumber()
+  @Min(TELEMETRY_RANGES.speed.min)
+  @Max(TELEMETRY_RANGES.speed.max)
+  speed?: number;
 
+  @ApiPropertyOptional({
+    example: 275.4,
+    description: 'Heading in degrees clockwise from true north',
+  })
   @IsOptional()
-  @IsString()
-  altitude?: string;
+  @NumericValue()
+  @IsNumber()
+  @Min(TELEMETRY_RANGES.course.min)
+  @Max(TELEMETRY_RANGES.course.max)
+  course?: number;
 
+  @ApiPropertyOptional({ description: 'Raw compression sensor reading' })
   @IsOptional()
-  @IsString()
-  speed?: string;
+  @NumericValue()
+  @IsNumber()
+  compress?: number;
 
+  @ApiPropertyOptional({ example: 1250, description: 'Load weight in kg' })
   @IsOptional()
-  @IsString()
-  compress?: string;
+  @NumericValue()
+  @IsNumber()
+  @Min(TELEMETRY_RANGES.weight.min)
+  @Max(TELEMETRY_RANGES.weight.max)
+  weight?: number;
 
+  @ApiPropertyOptional({
+    example: 9,
+    description: 'Satellites used for the fix',
+  })
   @IsOptional()
-  @IsString()
-  weight?: string;
+  @NumericValue()
+  @IsInt()
+  @Min(TELEMETRY_RANGES.noOfSatellites.min)
+  @Max(TELEMETRY_RANGES.noOfSatellites.max)
+  noOfSatellites?: number;
 
+  @ApiPropertyOptional({
+    example: '2025-07-01T10:15:30Z',
+    description: 'When the device took the fix; defaults to the time received',
+  })
   @IsOptional()
-  @IsString()
-  noOfSatellites?: string;
+  @IsISO8601()
+  fixTime?: string;
 }
+
+/**
+ * Validate a raw point the way the HTTP ValidationPipe does, for ingest paths
+ * without one (MQTT, TCP trackers). `dto` is only set when there are no errors.
+ */
+export const validateTrackPoint = async (
+  point: object,
+): Promise<{ dto?: TrackDeviceDto; errors: string[] }> => {
+  const dto = plainToInstance(TrackDeviceDto, point);
+  const errors = await validate(dto, { whitelist: true });
+  if (errors.length > 0) {
+    return {
+      errors: errors.flatMap((e) => Object.values(e.constraints ?? {})),
+    };
+  }
+  return { dto, errors: [] };
+};
@@ -0,0 +1,22 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { ArrayMaxSize, ArrayMinSize, IsArray, IsString } from 'class-validator';
+import { MAX_TRACK_BATCH_SIZE } from './track-batch.dto';
+
+// Room for an RMC and a GGA sentence per point of a full batch
+export const MAX_NMEA_SENTENCES = MAX_TRACK_BATCH_SIZE * 2;
+
+export class TrackNmeaDto {
+  @ApiProperty({
+    type: [String],
+    example: [
+      '$GPRMC,123519,A,4807.038,N,01131.000,E,022.4,084.4,230394,003.1,W*6A',
+      '$GPGGA,123519,4807.038,N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,*47',
+    ],
+    description: 'NMEA 0183 sentences; an entry may hold several lines',
+  })
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayMaxSize(MAX_NMEA_SENTENCES)
+  @IsString({ each: true })
+  sentences: string[];
+}
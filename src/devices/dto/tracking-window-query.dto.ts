@@ -0,0 +1,38 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString } from 'class-validator';
+
+export class TrackingWindowQueryDto {
+  @ApiPropertyOptional({
+    example: '2025-07-01',
+    description: 'Whole calendar day (YYYY-MM-DD) in tz',
+  })
+  @IsOptional()
+  @IsString()
+  date?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-07-01T08:00:00+05:30',
+    description:
+      'Range start; dates and times without an offset are read in tz',
+  })
+  @IsOptional()
+  @IsString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    example: '2025-07-01T20:00:00+05:30',
+    description:
+      'Range end, inclusive; a date-only value covers that whole day',
+  })
+  @IsOptional()
+  @IsString()
+  to?: string;
+
+  @ApiPropertyOptional({
+    example: 'Asia/Kolkata',
+    description: "IANA timezone, defaults to the user's profile timezone",
+  })
+  @IsOptional()
+  @IsString()
+  tz?: string;
+}
@@ -0,0 +1,4 @@
+import { PartialType } from '@nestjs/swagger';
+import { CreateSpeedRuleDto } from './create-speed-rule.dto';
+
+export class UpdateSpeedRuleDto extends PartialType(CreateSpeedRuleDto) {}
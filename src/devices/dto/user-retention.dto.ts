@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class UserRetentionDto {
+  @ApiPropertyOptional({
+    example: 365,
+    nullable: true,
+    description: "Days kept for this account's devices; null uses the role",
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(3650)
+  retentionDays?: number | null;
+}
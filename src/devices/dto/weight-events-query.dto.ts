@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { WeightEventType } from '@prisma/client';
+import { IsEnum, IsOptional } from 'class-validator';
+import { TrackingWindowQueryDto } from './tracking-window-query.dto';
+
+export class WeightEventsQueryDto extends TrackingWindowQueryDto {
+  @ApiPropertyOptional({
+    enum: WeightEventType,
+    description: 'Only this event type',
+  })
+  @IsOptional()
+  @IsEnum(WeightEventType)
+  type?: WeightEventType;
+}
@@ -0,0 +1,130 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { once } from 'events';
+import { Response } from 'express';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { HistoryCursor, keysetOrderBy, keysetWhere } from '../shared/cursor';
+import { toGeoPoint } from '../shared/geo';
+import { parseQualityFilter } from '../shared/gps-quality';
+import { HistoryWindowQuery } from '../shared/time-window';
+import {
+  EXPORT_FORMATS,
+  exportFileName,
+  getExportWriter,
+  isExportFormat,
+} from '../shared/track-export';
+import { DeviceAccessService } from './device-access.service';
+import { TrackingPointsService } from './tracking-points.service';
+
+// Rows fetched per query while streaming an export
+const EXPORT_BATCH_SIZE = 1000;
+
+// Wait until the response takes more data or the client has gone away
+const drained = async (res: Response) => {
+  const controller = new AbortController();
+  try {
+    await Promise.race([
+      once(res, 'drain', { signal: controller.signal }),
+      once(res, 'close', { signal: controller.signal }),
+    ]);
+  } finally {
+    controller.abort();
+  }
+};
+
+@Injectable()
+export class ExportService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+  ) {}
+
+  async streamHistory(
+    code: string,
+    userId: number,
+    format: string,
+    query: HistoryWindowQuery,
+    res: Response,
+    quality?: string,
+  ) {
+    if (!isExportFormat(format)) {
+      throw new BadRequestException(
+        `format must be one of ${EXPORT_FORMATS.join(', ')}`,
+      );
+    }
+
+    // Exported tracks are loaded into other tools as they are, so rejected
+    // fixes stay out unless asked for
+    const qualityFilter = parseQualityFilter(quality || 'usable');
+    if (qualityFilter.error) {
+      throw new BadRequestException(qualityFilter.error);
+    }
+
+    await this.deviceAccess.getViewableDevice(code, userId);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+    const writer = getExportWriter(format);
+
+    res.setHeader('Content-Type', writer.contentType);
+    res.setHeader(
+      'Content-Disposition',
+      `attachment; filename="${exportFileName(code, format, window.from, window.to, window.timezone)}"`,
+    );
+
+    // False once the client has disconnected, which ends the export
+    const write = async (chunk: string) => {
+      if (res.destroyed) return false;
+      if (!res.write(chunk)) {
+        await drained(res);
+      }
+      return !res.destroyed;
+    };
+
+    try {
+      if (!(await write(writer.header(code)))) return;
+
+      let index = 0;
+      let cursor: HistoryCursor | null = null;
+
+      // Keyset paging keeps memory flat regardless of the range size
+      for (;;) {
+        const where: Prisma.TrackingWhereInput = {
+          deviceCode: code,
+          trackedAt: { gte: window.from, lte: window.to },
+          ...qualityFilter.where,
+          ...keysetWhere(cursor, 'asc'),
+        };
+        const rows = await this.prisma.tracking.findMany({
+          where,
+          orderBy: keysetOrderBy('asc'),
+          take: EXPORT_BATCH_SIZE,
+          select: {
+            id: true,
+            lat: true,
+            long: true,
+            altitude: true,
+            speed: true,
+            noOfSatellites: true,
+            trackedAt: true,
+          },
+        });
+
+        for (const row of rows) {
+          if (toGeoPoint(row) && !(await write(writer.row(row, index++)))) {
+            return;
+          }
+        }
+
+        if (rows.length < EXPORT_BATCH_SIZE) break;
+        const last = rows[rows.length - 1];
+        cursor = { trackedAt: last.trackedAt, id: last.id };
+      }
+
+      if (!(await write(writer.footer()))) return;
+      res.end();
+    } catch (error) {
+      // Headers are already sent; the exception filter could not answer now
+      res.destroy(error as Error);
+    }
+  }
+}
@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { CreateGeofenceDto } from './dto/create-geofence.dto';
+import { TrackingWindowQueryDto } from './dto/tracking-window-query.dto';
+import { UpdateGeofenceDto } from './dto/update-geofence.dto';
+import { GeofencesService } from './geofences.service';
+
+@ApiTags('Devices')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@Controller('devices/:code/geofences')
+export class GeofencesController {
+  constructor(private readonly geofencesService: GeofencesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List geofences of a device' })
+  findAll(@Param('code') code: string, @Req() req: Request) {
+    const user = req.user as { id: number };
+    return this.geofencesService.findAll(code, user.id);
+  }
+
+  @Post()
+  @ApiOperation({
+    summary: 'Create a circular or polygon geofence for a device',
+  })
+  @ApiBody({ type: CreateGeofenceDto })
+  create(
+    @Param('code') code: string,
+    @Body() dto: CreateGeofenceDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.geofencesService.create(code, user.id, dto);
+  }
+
+  @Get('events')
+  @ApiOperation({ summary: 'Geofence enter/exit history of a device' })
+  findEvents(
+    @Param('code') code: string,
+    @Query() query: TrackingWindowQueryDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.geofencesService.findEvents(code, user.id, query);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update a geofence' })
+  @ApiBody({ type: UpdateGeofenceDto })
+  update(
+    @Param('code') code: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateGeofenceDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.geofencesService.update(code, id, user.id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete a geofence' })
+  remove(
+    @Param('code') code: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.geofencesService.remove(code, id, user.id);
+  }
+}
@@ -0,0 +1,181 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { evaluateGeofences, GeofencePoint } from '../shared/geofence';
+import { HistoryWindowQuery } from '../shared/time-window';
+import { DeviceAccessService } from './device-access.service';
+import {
+  CreateGeofenceDto,
+  GeofenceVertexDto,
+} from './dto/create-geofence.dto';
+import { UpdateGeofenceDto } from './dto/update-geofence.dto';
+import { TrackingPointsService } from './tracking-points.service';
+
+@Injectable()
+export class GeofencesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+  ) {}
+
+  async findAll(code: string, userId: number) {
+    const device = await this.deviceAccess.getViewableDevice(code, userId);
+
+    return this.prisma.geofence.findMany({
+      where: { deviceId: device.id },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async create(code: string, userId: number, dto: CreateGeofenceDto) {
+    const device = await this.deviceAccess.getManageableDevice(code, userId);
+
+    return this.prisma.geofence.create({
+      data: {
+        deviceId: device.id,
+        name: dto.name,
+        isActive: dto.isActive ?? true,
+        ...this.buildShape(dto),
+      },
+    });
+  }
+
+  async update(
+    code: string,
+    id: number,
+    userId: number,
+    dto: UpdateGeofenceDto,
+  ) {
+    const device = await this.deviceAccess.getManageableDevice(code, userId);
+    const existing = await this.findOwnedGeofence(device.id, id);
+
+    const shapeChanged =
+      dto.type !== undefined ||
+      dto.centerLat !== undefined ||
+      dto.centerLong !== undefined ||
+      dto.radius !== undefined ||
+      dto.polygon !== undefined;
+
+    const data: Prisma.GeofenceUpdateInput = {
+      name: dto.name,
+      isActive: dto.isActive,
+    };
+
+    if (shapeChanged) {
+      Object.assign(
+        data,
+        this.buildShape({
+          type: dto.type ?? existing.type,
+          centerLat: dto.centerLat ?? existing.centerLat ?? undefined,
+          centerLong: dto.centerLong ?? existing.centerLong ?? undefined,
+          radius: dto.radius ?? existing.radius ?? undefined,
+          polygon:
+            dto.polygon ??
+            (existing.polygon as unknown as GeofenceVertexDto[] | null) ??
+            undefined,
+        }),
+      );
+      // The next point re-establishes inside/outside against the new boundary
+      data.isInside = null;
+      data.stateChangedAt = null;
+    }
+
+    return this.prisma.geofence.update({
+      where: { id: existing.id },
+      data,
+    });
+  }
+
+  async remove(code: string, id: number, userId: number) {
+    const device = await this.deviceAccess.getManageableDevice(code, userId);
+    const existing = await this.findOwnedGeofence(device.id, id);
+
+    await this.prisma.geofence.delete({ where: { id: existing.id } });
+
+    return { message: 'Geofence deleted' };
+  }
+
+  async findEvents(code: string, userId: number, query: HistoryWindowQuery) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+
+    return this.prisma.geofenceEvent.findMany({
+      where: {
+        deviceCode: code,
+        occurredAt: { gte: window.from, lte: window.to },
+      },
+      include: {
+        geofence: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+      orderBy: { occurredAt: 'desc' },
+    });
+  }
+
+  // Called from the ingest path for every stored point
+  async evaluate(code: string, point: GeofencePoint) {
+    return evaluateGeofences(this.prisma, code, point);
+  }
+
+  private async findOwnedGeofence(deviceId: number, id: number) {
+    const geofence = await this.prisma.geofence.findFirst({
+      where: { id, deviceId },
+    });
+
+    if (!geofence) {
+      throw new NotFoundException('Geofence not found');
+    }
+
+    return geofence;
+  }
+
+  private buildShape(
+    dto: Pick<
+      CreateGeofenceDto,
+      'type' | 'centerLat' | 'centerLong' | 'radius' | 'polygon'
+    >,
+  ) {
+    if (dto.type === 'CIRCLE') {
+      if (
+        dto.centerLat === undefined ||
+        dto.centerLong === undefined ||
+        dto.radius === undefined
+      ) {
+        throw new BadRequestException(
+          'Circle geofences need centerLat, centerLong and radius',
+        );
+      }
+
+      return {
+        type: dto.type,
+        centerLat: dto.centerLat,
+        centerLong: dto.centerLong,
+        radius: dto.radius,
+        polygon: Prisma.DbNull,
+      };
+    }
+
+    if (!dto.polygon || dto.polygon.length < 3) {
+      throw new BadRequestException(
+        'Polygon geofences need at least 3 vertices',
+      );
+    }
+
+    return {
+      type: dto.type,
+      centerLat: null,
+      centerLong: null,
+      radius: null,
+      polygon: dto.polygon.map(({ lat, long }) => ({ lat, long })),
+    };
+  }
+}
@@ -8,6 +8,38 @@ import {
   isWarmupRequest,
   handleWarmup
 } from '../shared/utils'
+import {
+  isSimplifyRequested,
+  parseSimplifyOptions,
+  simplifyTrack
+} from '../shared/simplify'
+import { resolveHistoryWindow } from '../shared/time-window'
+import { parseQualityFilter } from '../shared/gps-quality'
+import {
+  decodeCursor,
+  keysetOrderBy,
+  keysetWhere,
+  paginate,
+  parseLimit
+} from '../shared/cursor'
+
+const historySelect = {
+  id: true,
+  lat: true,
+  long: true,
+  level: true,
+  altitude: true,
+  speed: true,
+  course: true,
+  compress: true,
+  weight: true,
+  noOfSatellites: true,
+  trackedAt: true,
+  receivedAt: true,
+  quality: true,
+  qualityReason: true,
+  iotSimNumber: true
+}
 
 export const handler: APIGatewayProxyHandler = async (event) => {
   try {
@@ -22,7 +54,18 @@ export const handler: APIGatewayProxyHandler = async (event) => {
     const user = getUserFromContext(event)
     
     const { code } = event.pathParameters || {}
-    const { date, limit = '100', offset = '0' } = event.queryStringParameters || {}
+    const {
+      date,
+      from,
+      to,
+      tz,
+      limit = '100',
+      offset = '0',
+      cursor,
+      simplify,
+      maxPoints,
+      quality
+    } = event.queryStringParameters || {}
     
     if (!code) {
       return errorResponse('Device code is required', 400)
@@ -32,10 +75,27 @@ export const handler: APIGatewayProxyHandler = async (event) => {
       deviceCode: code,
       userId: user.id,
       date,
+      from,
+      to,
+      tz,
       limit,
-      offset
+      offset,
+      cursor,
+      simplify,
+      maxPoints,
+      quality
     })
 
+    const { options: simplifyOptions, error: simplifyError } = parseSimplifyOptions(simplify, maxPoints)
+    if (simplifyError) {
+      return errorResponse(simplifyError, 400)
+    }
+
+    const qualityFilter = parseQualityFilter(quality)
+    if (qualityFilter.error) {
+      return errorResponse(qualityFilter.error, 400)
+    }
+
     // Verify user has access to this device
     const device = await prisma.device.findUnique({
       where: { code },
@@ -61,66 +121,114 @@ export const handler: APIGatewayProxyHandler = async (event) => {
       return errorResponse('Access denied to this device', 403)
     }
 
-    // Build date filter
-    let dateFilter: any = {}
-    if (date) {
-      const targetDate = new Date(date)
-      if (isNaN(targetDate.getTime())) {
-        return errorResponse('Invalid date format. Use YYYY-MM-DD', 400)
-      }
-      
-      const startOfDay = new Date(targetDate)
-      startOfDay.setHours(0, 0, 0, 0)
-      
-      const endOfDay = new Date(targetDate)
-      endOfDay.setHours(23, 59, 59, 999)
-      
-      dateFilter = {
-        trackedAt: {
-          gte: startOfDay,
-          lte: endOfDay
-        }
-      }
+    // Build date filter, same windows as the Nest API (day bounds in the user's timezone)
+    const profile = await prisma.user.findUnique({
+      where: { id: user.id },
+      select: { timezone: true }
+    })
+
+    const { window, error: windowError } = resolveHistoryWindow(
+      { date, from, to, tz },
+      profile?.timezone
+    )
+    if (windowError || !window) {
+      return errorResponse(windowError || 'Invalid date range', 400)
     }
 
-    // Parse pagination parameters
-    const limitNum = Math.min(parseInt(limit) || 100, 1000) // Max 1000 records
-    const offsetNum = Math.max(parseInt(offset) || 0, 0)
+    const dateFilter = {
+      trackedAt: {
+        gte: window.from,
+        lte: window.to
+      },
+      ...qualityFilter.where
+    }
 
-    // Get tracking history
-    const [trackingHistory, totalCount] = await Promise.all([
-      prisma.tracking.findMany({
+    // Simplified history covers the whole filtered range in a single page,
+    // oldest first since it is a path rather than a list of recent fixes
+    if (isSimplifyRequested(simplifyOptions)) {
+      const fullHistory = await prisma.tracking.findMany({
         where: {
           deviceCode: code,
           ...dateFilter
         },
-        orderBy: {
-          trackedAt: 'desc'
+        orderBy: keysetOrderBy('asc'),
+        select: historySelect
+      })
+
+      const simplified = simplifyTrack(fullHistory, simplifyOptions)
+
+      Logger.info('Simplified tracking history retrieved', {
+        deviceCode: code,
+        userId: user.id,
+        originalCount: fullHistory.length,
+        recordsCount: simplified.length,
+        date
+      })
+
+      return successResponse(
+        {
+          deviceCode: code,
+          deviceName: device.deviceName,
+          history: simplified,
+          pagination: {
+            total: simplified.length,
+            limit: simplified.length,
+            offset: 0,
+            hasMore: false,
+            nextCursor: null
+          },
+          simplification: {
+            tolerance: simplifyOptions.tolerance ?? null,
+            maxPoints: simplifyOptions.maxPoints ?? null,
+            originalCount: fullHistory.length
+          },
+          filter: {
+            date: date || null,
+            from: window.from?.toISOString() || null,
+            to: window.to?.toISOString() || null,
+            timezone: window.timezone,
+            quality: quality || 'all'
+          }
         },
-        take: limitNum,
-        skip: offsetNum,
-        select: {
-          id: true,
-          lat: true,
-          long: true,
-          level: true,
-          altitude: true,
-          speed: true,
-          compress: true,
-          weight: true,
-          noOfSatellites: true,
-          trackedAt: true,
-          iotSimNumber: true
-        }
-      }),
-      prisma.tracking.count({
+        'Tracking history retrieved successfully'
+      )
+    }
+
+    // Parse pagination parameters. A cursor (keyset on trackedAt, id) takes
+    // precedence over offset, which is kept for existing clients.
+    const limitNum = parseLimit(limit) // Max 1000 records
+    const after = cursor ? decodeCursor(cursor) : null
+    if (cursor && !after) {
+      return errorResponse('Invalid cursor', 400)
+    }
+    const offsetNum = after ? 0 : Math.max(parseInt(offset) || 0, 0)
+
+    // Get tracking history, newest first
+    const [rows, totalCount] = await Promise.all([
+      prisma.tracking.findMany({
         where: {
           deviceCode: code,
-          ...dateFilter
-        }
-      })
+          ...dateFilter,
+          ...keysetWhere(after, 'desc')
+        },
+        orderBy: keysetOrderBy('desc'),
+        take: limitNum + 1,
+        skip: offsetNum,
+        select: historySelect
+      }),
+      // Counting is only done for the first page; later pages follow nextCursor
+      after
+        ? Promise.resolve(null)
+        : prisma.tracking.count({
+            where: {
+              deviceCode: code,
+              ...dateFilter
+            }
+          })
     ])
 
+    const { items: trackingHistory, nextCursor } = paginate(rows, limitNum)
+
     Logger.info('Tracking history retrieved', {
       deviceCode: code,
       userId: user.id,
@@ -138,10 +246,15 @@ export const handler: APIGatewayProxyHandler = async (event) => {
           total: totalCount,
           limit: limitNum,
           offset: offsetNum,
-          hasMore: offsetNum + limitNum < totalCount
+          hasMore: nextCursor !== null,
+          nextCursor
         },
         filter: {
-          date: date || null
+          date: date || null,
+          from: window.from?.toISOString() || null,
+          to: window.to?.toISOString() || null,
+          timezone: window.timezone,
+          quality: quality || 'all'
         }
       },
       'Tracking history retrieved successfully'
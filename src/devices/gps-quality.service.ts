@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  classifyFix,
+  classifyIncomingFix,
+  FixClassification,
+  findReferenceFix,
+  gpsQualityOptionsFromEnv,
+  QualityPoint,
+  ReferenceFix,
+} from '../shared/gps-quality';
+
+@Injectable()
+export class GpsQualityService {
+  private readonly options = gpsQualityOptionsFromEnv();
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  // Called from the ingest path before a point is stored
+  async classify(code: string, point: QualityPoint) {
+    return classifyIncomingFix(this.prisma, code, point, this.options);
+  }
+
+  /**
+   * Classify points uploaded together. Each is compared with the latest usable
+   * fix before it, whether already stored or earlier in the same upload.
+   */
+  async classifyBatch(
+    code: string,
+    points: QualityPoint[],
+  ): Promise<FixClassification[]> {
+    const order = points
+      .map((_, index) => index)
+      .sort(
+        (a, b) =>
+          points[a].trackedAt.getTime() - points[b].trackedAt.getTime() ||
+          a - b,
+      );
+
+    const results: FixClassification[] = [];
+    let previous: ReferenceFix | null = null;
+
+    for (const index of order) {
+      const point = points[index];
+      const stored = await findReferenceFix(this.prisma, code, point.trackedAt);
+      const reference =
+        previous && (!stored || previous.trackedAt >= stored.trackedAt)
+          ? previous
+          : stored;
+
+      results[index] = classifyFix(point, reference, this.options);
+      if (results[index].quality !== 'REJECTED') {
+        previous = point;
+      }
+    }
+
+    return results;
+  }
+}
@@ -0,0 +1,143 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { HistoryCursor, keysetOrderBy, keysetWhere } from '../shared/cursor';
+import { GeoPoint, toGeoPoint } from '../shared/geo';
+import {
+  createHeatmap,
+  DEFAULT_HEATMAP_CELL_SIZE,
+  dwellSeconds,
+} from '../shared/heatmap';
+import { DeviceAccessService } from './device-access.service';
+import { HeatmapQueryDto } from './dto/heatmap-query.dto';
+import { TrackingPointsService } from './tracking-points.service';
+
+// Rows fetched per query while binning
+const HEATMAP_BATCH_SIZE = 5000;
+
+const HEATMAP_MAX_DEVICES = 100;
+
+// Only the heaviest cells are returned beyond this
+const HEATMAP_MAX_CELLS = 5000;
+
+@Injectable()
+export class HeatmapService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+  ) {}
+
+  async getHeatmap(userId: number, query: HeatmapQueryDto) {
+    const codes = await this.resolveCodes(userId, query.codes);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+    const cellSize = query.cellSize ?? DEFAULT_HEATMAP_CELL_SIZE;
+    const weight = query.weight ?? 'count';
+
+    const heatmap = createHeatmap(cellSize);
+
+    for (const code of codes) {
+      // Each fix is added once the next one tells how long was spent there
+      let previous: (GeoPoint & { trackedAt: Date }) | null = null;
+      let cursor: HistoryCursor | null = null;
+
+      // Keyset paging keeps memory flat regardless of the range size
+      for (;;) {
+        const where: Prisma.TrackingWhereInput = {
+          deviceCode: code,
+          trackedAt: { gte: window.from, lte: window.to },
+          quality: { not: 'REJECTED' },
+          ...keysetWhere(cursor, 'asc'),
+        };
+        const rows = await this.prisma.tracking.findMany({
+          where,
+          orderBy: keysetOrderBy('asc'),
+          take: HEATMAP_BATCH_SIZE,
+          select: { id: true, lat: true, long: true, trackedAt: true },
+        });
+
+        for (const row of rows) {
+          const point = toGeoPoint(row);
+          if (!point) continue;
+
+          if (previous) {
+            heatmap.add(
+              previous,
+              dwellSeconds(previous.trackedAt, row.trackedAt),
+            );
+          }
+          previous = { ...point, trackedAt: row.trackedAt };
+        }
+
+        if (rows.length < HEATMAP_BATCH_SIZE) break;
+        const last = rows[rows.length - 1];
+        cursor = { trackedAt: last.trackedAt, id: last.id };
+      }
+
+      if (previous) {
+        heatmap.add(previous, dwellSeconds(previous.trackedAt, null));
+      }
+    }
+
+    const weightOf = (cell: { points: number; dwellSeconds: number }) =>
+      weight === 'dwell' ? cell.dwellSeconds : cell.points;
+
+    const cells = heatmap
+      .cells()
+      .map((cell) => ({
+        ...cell,
+        dwellSeconds: Math.round(cell.dwellSeconds),
+        weight: weightOf(cell),
+      }))
+      .filter((cell) => cell.weight > 0)
+      .sort((a, b) => b.weight - a.weight);
+
+    return {
+      codes,
+      from: window.from ?? null,
+      to: window.to ?? null,
+      cellSize,
+      weight,
+      maxWeight: cells.length > 0 ? cells[0].weight : 0,
+      truncated: cells.length > HEATMAP_MAX_CELLS,
+      cells: cells.slice(0, HEATMAP_MAX_CELLS),
+    };
+  }
+
+  // Requested devices, each checked like history access, or every owned or
+  // shared device when none are given
+  private async resolveCodes(userId: number, codes?: string) {
+    const requested = [
+      ...new Set(
+        (codes ?? '')
+          .split(',')
+          .map((code) => code.trim())
+          .filter(Boolean),
+      ),
+    ];
+
+    if (requested.length > HEATMAP_MAX_DEVICES) {
+      throw new BadRequestException(
+        `At most ${HEATMAP_MAX_DEVICES} devices can be combined`,
+      );
+    }
+
+    if (requested.length > 0) {
+      for (const code of requested) {
+        await this.deviceAccess.getViewableDevice(code, userId);
+      }
+      return requested;
+    }
+
+    const devices = await this.prisma.device.findMany({
+      where: {
+        OR: [{ assignedTo: userId }, { sharedDevices: { some: { userId } } }],
+      },
+      select: { code: true },
+      orderBy: { code: 'asc' },
+      take: HEATMAP_MAX_DEVICES,
+    });
+
+    return devices.map((device) => device.code);
+  }
+}
@@ -0,0 +1,122 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { advanceOdometer, OdometerPoint, utcDay } from '../shared/odometer';
+import { DEFAULT_TIMEZONE, zonedDay } from '../shared/time-window';
+import { DeviceAccessService } from './device-access.service';
+
+export type DistancePeriod = 'day' | 'week' | 'month';
+
+const DISTANCE_PERIODS: DistancePeriod[] = ['day', 'week', 'month'];
+
+// Start of the day, ISO week (Monday) or month a calendar day falls in
+const periodStart = (date: Date, period: DistancePeriod): Date => {
+  const day = utcDay(date);
+  if (period === 'week') {
+    const sinceMonday = (day.getUTCDay() + 6) % 7;
+    return new Date(day.getTime() - sinceMonday * 24 * 60 * 60 * 1000);
+  }
+  if (period === 'month') {
+    return new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth(), 1));
+  }
+  return day;
+};
+
+export const toKm = (metres: number) => Math.round(metres / 10) / 100;
+
+@Injectable()
+export class OdometerService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+  ) {}
+
+  // Called from the ingest path for every stored point; `pending` are stored
+  // points of the same batch that are counted after this one
+  async advance(code: string, point: OdometerPoint, pending: number[] = []) {
+    return advanceOdometer(this.prisma, code, point, pending);
+  }
+
+  async getOdometer(code: string, userId: number) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+
+    const device = await this.prisma.device.findUniqueOrThrow({
+      where: { code },
+      select: {
+        odometer: true,
+        odometerAt: true,
+        user: { select: { timezone: true } },
+      },
+    });
+
+    // Daily totals are bucketed in the owner's timezone
+    const today = zonedDay(
+      new Date(),
+      device.user?.timezone || DEFAULT_TIMEZONE,
+    );
+    const monthStart = periodStart(today, 'month');
+    const weekStart = periodStart(today, 'week');
+
+    const days = await this.prisma.deviceDailyDistance.findMany({
+      where: {
+        deviceCode: code,
+        day: { gte: monthStart < weekStart ? monthStart : weekStart },
+      },
+    });
+
+    const sumSince = (start: Date) =>
+      days
+        .filter((row) => row.day >= start)
+        .reduce((total, row) => total + row.distance, 0);
+
+    return {
+      code,
+      odometerKm: toKm(device.odometer),
+      lastUpdatedAt: device.odometerAt,
+      todayKm: toKm(sumSince(today)),
+      thisWeekKm: toKm(sumSince(weekStart)),
+      thisMonthKm: toKm(sumSince(monthStart)),
+    };
+  }
+
+  async getDistanceTotals(
+    code: string,
+    userId: number,
+    period: string = 'day',
+    from?: string,
+    to?: string,
+  ) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+
+    if (!DISTANCE_PERIODS.includes(period as DistancePeriod)) {
+      throw new BadRequestException('period must be one of day, week, month');
+    }
+
+    const day: { gte?: Date; lte?: Date } = {};
+    if (from) day.gte = periodStart(this.parseDate(from, 'from'), 'day');
+    if (to) day.lte = this.parseDate(to, 'to');
+
+    const rows = await this.prisma.deviceDailyDistance.findMany({
+      where: { deviceCode: code, day },
+      orderBy: { day: 'asc' },
+    });
+
+    const buckets = new Map<number, number>();
+    for (const row of rows) {
+      const start = periodStart(row.day, period as DistancePeriod).getTime();
+      buckets.set(start, (buckets.get(start) ?? 0) + row.distance);
+    }
+
+    return Array.from(buckets, ([start, distance]) => ({
+      periodStart: new Date(start),
+      distanceKm: toKm(distance),
+    }));
+  }
+
+  private parseDate(value: string, field: string) {
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new BadRequestException(`Invalid ${field} date`);
+    }
+    return date;
+  }
+}
@@ -0,0 +1,235 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { JwtService } from '@nestjs/jwt';
+import { Socket } from 'socket.io';
+import { PrismaService } from '../prisma/prisma.service';
+import { HistoryCursor } from '../shared/cursor';
+import {
+  loadPlaybackPoints,
+  playbackCursorAt,
+  playbackDelay,
+  PlaybackCommand,
+  PlaybackPoint,
+  playbackLocationUpdate,
+  PlaybackStatus,
+} from '../shared/playback';
+import { DeviceAccessService } from './device-access.service';
+
+type StartCommand = Extract<PlaybackCommand, { command: 'start' }>;
+
+interface PlaybackSession {
+  client: Socket;
+  deviceCode: string;
+  from: Date;
+  to: Date;
+  speed: number;
+  cursor: HistoryCursor; // last point sent, or just before the start
+  lastSent: Date | null; // fix time of the last point sent
+  buffer: PlaybackPoint[];
+  paused: boolean;
+  timer?: NodeJS.Timeout;
+  // Bumped on every command so a step already in flight drops its result
+  generation: number;
+}
+
+@Injectable()
+export class PlaybackService implements OnModuleDestroy {
+  private readonly logger = new Logger(PlaybackService.name);
+  private readonly sessions = new Map<string, PlaybackSession>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly jwtService: JwtService,
+    private readonly deviceAccess: DeviceAccessService,
+  ) {}
+
+  onModuleDestroy() {
+    for (const session of this.sessions.values()) {
+      clearTimeout(session.timer);
+    }
+    this.sessions.clear();
+  }
+
+  // Resolves the user a socket acts as from a token issued by AuthService
+  async authenticate(token: string | undefined) {
+    if (!token) {
+      throw new UnauthorizedException('A token is required for playback');
+    }
+
+    let payload: { sub: number };
+    try {
+      payload = await this.jwtService.verifyAsync<{ sub: number }>(token);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: payload.sub },
+      select: { id: true, isActive: true },
+    });
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('User not found or deactivated');
+    }
+
+    return user.id;
+  }
+
+  /**
+   * Replay a device's stored points in [from, to] to one socket, replacing
+   * any playback that socket already had running.
+   */
+  async start(client: Socket, userId: number, command: StartCommand) {
+    await this.deviceAccess.getViewableDevice(command.deviceCode, userId);
+
+    this.stop(client.id, false);
+
+    const session: PlaybackSession = {
+      client,
+      deviceCode: command.deviceCode,
+      from: command.from,
+      to: command.to,
+      speed: command.speed,
+      cursor: playbackCursorAt(command.from),
+      lastSent: null,
+      buffer: [],
+      paused: false,
+      generation: 0,
+    };
+    this.sessions.set(client.id, session);
+
+    this.emitStatus(session, 'playing');
+    this.schedule(session);
+  }
+
+  // Applies pause, resume, seek and speed to the socket's running playback
+  control(client: Socket, command: Exclude<PlaybackCommand, StartCommand>) {
+    if (command.command === 'stop') {
+      this.stop(client.id);
+      return;
+    }
+
+    const session = this.sessions.get(client.id);
+    if (!session) {
+      throw new BadRequestException('No playback is running');
+    }
+
+    if (
+      command.command === 'seek' &&
+      (command.at < session.from || command.at > session.to)
+    ) {
+      throw new BadRequestException('Seek position is outside the range');
+    }
+
+    this.cancel(session);
+
+    switch (command.command) {
+      case 'pause':
+        session.paused = true;
+        this.emitStatus(session, 'paused');
+        return;
+      case 'resume':
+        session.paused = false;
+        break;
+      case 'seek':
+        session.cursor = playbackCursorAt(command.at);
+        session.lastSent = null;
+        session.buffer = [];
+        break;
+      case 'speed':
+        session.speed = command.speed;
+        break;
+    }
+
+    this.emitStatus(session, session.paused ? 'paused' : 'playing');
+    this.schedule(session);
+  }
+
+  // Ends the socket's playback, e.g. on command or when it disconnects
+  stop(clientId: string, notify = true) {
+    const session = this.sessions.get(clientId);
+    if (!session) return;
+
+    this.cancel(session);
+    this.sessions.delete(clientId);
+    if (notify) {
+      this.emitStatus(session, 'stopped');
+    }
+  }
+
+  private cancel(session: PlaybackSession) {
+    clearTimeout(session.timer);
+    session.timer = undefined;
+    session.generation++;
+  }
+
+  private schedule(session: PlaybackSession) {
+    if (session.paused) return;
+
+    const generation = session.generation;
+    const points =
+      session.buffer.length > 0
+        ? Promise.resolve(session.buffer)
+        : loadPlaybackPoints(
+            this.prisma,
+            session.deviceCode,
+            session.cursor,
+            session.to,
+          );
+
+    points
+      .then((buffer) => {
+        if (session.generation !== generation) return;
+
+        session.buffer = buffer;
+        const point = buffer[0];
+        if (!point) {
+          this.sessions.delete(session.client.id);
+          this.emitStatus(session, 'ended');
+          return;
+        }
+
+        const delay = playbackDelay(
+          session.lastSent,
+          point.trackedAt,
+          session.speed,
+        );
+        session.timer = setTimeout(() => {
+          session.buffer.shift();
+          session.cursor = { trackedAt: point.trackedAt, id: point.id };
+          session.lastSent = point.trackedAt;
+          session.client.emit(
+            'location-update',
+            playbackLocationUpdate(session.deviceCode, point),
+          );
+          this.schedule(session);
+        }, delay);
+      })
+      .catch((error) => {
+        this.logger.error(`Playback of ${session.deviceCode} failed`, error);
+        if (session.generation !== generation) return;
+
+        this.sessions.delete(session.client.id);
+        this.emitStatus(session, 'error', 'Failed to load points');
+      });
+  }
+
+  private emitStatus(
+    session: PlaybackSession,
+    status: PlaybackStatus['status'],
+    message?: string,
+  ) {
+    const payload: PlaybackStatus = {
+      status,
+      deviceCode: session.deviceCode,
+      position: session.lastSent,
+      speed: session.speed,
+      message,
+    };
+    session.client.emit('playback-status', payload);
+  }
+}
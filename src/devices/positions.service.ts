@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { LastPositionPoint, updateLastPosition } from '../shared/last-position';
+import { GeocodingService } from '../geocoding/geocoding.service';
+
+@Injectable()
+export class PositionsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly geocoding: GeocodingService,
+  ) {}
+
+  // Called from the ingest path for every stored point
+  async update(point: LastPositionPoint) {
+    return updateLastPosition(this.prisma, point);
+  }
+
+  // Latest position of every device the user owns or has been shared
+  async getFleetPositions(userId: number) {
+    const devices = await this.prisma.device.findMany({
+      where: {
+        OR: [{ assignedTo: userId }, { sharedDevices: { some: { userId } } }],
+      },
+      select: {
+        code: true,
+        deviceName: true,
+        assignedTo: true,
+        connectivity: true,
+        lastSeenAt: true,
+        lastPosition: true,
+      },
+      orderBy: { code: 'asc' },
+    });
+
+    const now = new Date();
+
+    return Promise.all(
+      devices.map(async ({ lastPosition, ...device }) => ({
+        code: device.code,
+        deviceName: device.deviceName,
+        shared: device.assignedTo !== userId,
+        status: device.connectivity,
+        lastSeenAt: device.lastSeenAt,
+        position: lastPosition && {
+          lat: lastPosition.lat,
+          long: lastPosition.long,
+          address: await this.geocoding.reverse(lastPosition),
+          speed: lastPosition.speed,
+          batteryLevel: lastPosition.level,
+          trackedAt: lastPosition.trackedAt,
+          fixAgeSeconds: Math.round(
+            (now.getTime() - lastPosition.trackedAt.getTime()) / 1000,
+          ),
+        },
+      })),
+    );
+  }
+}
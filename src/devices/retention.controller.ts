@@ -0,0 +1,84 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseEnumPipe,
+  ParseIntPipe,
+  Post,
+  Put,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { UserRole } from '@prisma/client';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { Roles } from 'src/auth/roles.decorator';
+import { RolesGuard } from 'src/auth/roles.guard';
+import { UserRole as Role } from 'src/auth/dto/otp-auth.dto';
+import { RestoreArchiveDto } from './dto/restore-archive.dto';
+import { RetentionPolicyDto } from './dto/retention-policy.dto';
+import { UserRetentionDto } from './dto/user-retention.dto';
+import { RetentionService } from './retention.service';
+
+@ApiTags('Tracking Retention')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles(Role.SUPER_ADMIN, Role.ADMIN)
+@ApiBearerAuth('JWT-auth')
+@Controller('admin/retention')
+export class RetentionController {
+  constructor(private readonly retentionService: RetentionService) {}
+
+  @Get('policies')
+  @ApiOperation({ summary: 'Tracking retention in days per role' })
+  getPolicies() {
+    return this.retentionService.getPolicies();
+  }
+
+  @Put('policies/:role')
+  @Roles(Role.SUPER_ADMIN)
+  @ApiOperation({ summary: 'Set the tracking retention of a role' })
+  @ApiBody({ type: RetentionPolicyDto })
+  updatePolicy(
+    @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+    @Body() dto: RetentionPolicyDto,
+  ) {
+    return this.retentionService.updatePolicy(role, dto.retentionDays);
+  }
+
+  @Put('users/:id')
+  @Roles(Role.SUPER_ADMIN)
+  @ApiOperation({
+    summary: "Override the tracking retention of a user's devices",
+  })
+  @ApiBody({ type: UserRetentionDto })
+  updateUserRetention(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UserRetentionDto,
+  ) {
+    return this.retentionService.updateUserRetention(
+      id,
+      dto.retentionDays ?? null,
+    );
+  }
+
+  @Post('archive')
+  @ApiOperation({ summary: 'Archive expired tracking rows now' })
+  archive() {
+    return this.retentionService.archive();
+  }
+
+  @Get('archives/:code')
+  @ApiOperation({ summary: 'Archived days of a device' })
+  getArchives(@Param('code') code: string) {
+    return this.retentionService.getArchives(code);
+  }
+
+  @Post('archives/:code/restore')
+  @ApiOperation({
+    summary: 'Restore archived tracking of a device for a time range',
+  })
+  @ApiBody({ type: RestoreArchiveDto })
+  restore(@Param('code') code: string, @Body() dto: RestoreArchiveDto) {
+    return this.retentionService.restore(code, dto);
+  }
+}
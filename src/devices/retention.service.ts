@@ -0,0 +1,118 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { UserRole } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  ARCHIVE_INTERVAL_MS,
+  archiveExpiredTracking,
+  getRetentionPolicies,
+  restoreArchivedTracking,
+} from '../shared/retention';
+import { RestoreArchiveDto } from './dto/restore-archive.dto';
+
+@Injectable()
+export class RetentionService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(RetentionService.name);
+  private archiveTimer?: NodeJS.Timeout;
+
+  constructor(private readonly prisma: PrismaService) {}
+
+  onModuleInit() {
+    this.archiveTimer = setInterval(() => {
+      this.archive().catch((error) =>
+        this.logger.error('Tracking archival failed', error),
+      );
+    }, ARCHIVE_INTERVAL_MS);
+    // Do not keep the process alive just for archival
+    this.archiveTimer.unref();
+  }
+
+  onModuleDestroy() {
+    clearInterval(this.archiveTimer);
+  }
+
+  async archive() {
+    const results = await archiveExpiredTracking(this.prisma);
+    const archived = results.reduce((sum, result) => sum + result.archived, 0);
+
+    if (archived > 0) {
+      this.logger.log(
+        `Archived ${archived} tracking rows of ${results.length} devices`,
+      );
+    }
+
+    return { archived, devices: results };
+  }
+
+  async getPolicies() {
+    const policies = await getRetentionPolicies(this.prisma);
+    return Object.entries(policies).map(([role, retentionDays]) => ({
+      role,
+      retentionDays,
+    }));
+  }
+
+  async updatePolicy(role: UserRole, retentionDays: number) {
+    return this.prisma.retentionPolicy.upsert({
+      where: { role },
+      create: { role, retentionDays },
+      update: { retentionDays },
+    });
+  }
+
+  async updateUserRetention(userId: number, retentionDays: number | null) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { id: true },
+    });
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return this.prisma.user.update({
+      where: { id: userId },
+      data: { retentionDays },
+      select: { id: true, role: true, retentionDays: true },
+    });
+  }
+
+  async getArchives(code: string) {
+    return this.prisma.trackingArchive.findMany({
+      where: { deviceCode: code },
+      select: {
+        id: true,
+        day: true,
+        fromTrackedAt: true,
+        toTrackedAt: true,
+        pointCount: true,
+        archivedAt: true,
+        restoredAt: true,
+      },
+      orderBy: { day: 'asc' },
+    });
+  }
+
+  async restore(code: string, dto: RestoreArchiveDto) {
+    const from = new Date(dto.from);
+    const to = new Date(dto.to);
+    if (from > to) {
+      throw new BadRequestException('from must not be after to');
+    }
+
+    const device = await this.prisma.device.findUnique({
+      where: { code },
+      select: { code: true },
+    });
+    if (!device) {
+      throw new NotFoundException('Device not found');
+    }
+
+    return restoreArchivedTracking(this.prisma, code, from, to);
+  }
+}
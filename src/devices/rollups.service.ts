@@ -0,0 +1,109 @@
+import { Injectable } from '@nestjs/common';
+import { TelemetryRollup } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  rollupBucket,
+  RollupPoint,
+  rollupTimezone,
+  updateRollups,
+} from '../shared/rollups';
+import { DeviceAccessService } from './device-access.service';
+import { RollupsQueryDto } from './dto/rollups-query.dto';
+import { toKm } from './odometer.service';
+import { TrackingPointsService } from './tracking-points.service';
+
+type RollupTotals = Omit<
+  TelemetryRollup,
+  'id' | 'deviceCode' | 'period' | 'bucket'
+>;
+
+const summarize = (totals: RollupTotals) => ({
+  pointCount: totals.pointCount,
+  distanceKm: toKm(totals.distance),
+  maxSpeed: totals.maxSpeed,
+  avgSpeed:
+    totals.speedCount > 0
+      ? Math.round((totals.speedSum / totals.speedCount) * 10) / 10
+      : null,
+  movingSeconds: Math.round(totals.movingSeconds),
+  minBattery: totals.minBattery,
+  maxBattery: totals.maxBattery,
+  firstAt: totals.firstAt,
+  lastAt: totals.lastAt,
+});
+
+// Nulls are missing readings, not zero
+const pick = (
+  a: number | null,
+  b: number | null,
+  choose: (...values: number[]) => number,
+) => (a === null ? b : b === null ? a : choose(a, b));
+
+const combine = (a: RollupTotals, b: RollupTotals): RollupTotals => ({
+  pointCount: a.pointCount + b.pointCount,
+  distance: a.distance + b.distance,
+  maxSpeed: pick(a.maxSpeed, b.maxSpeed, Math.max),
+  speedSum: a.speedSum + b.speedSum,
+  speedCount: a.speedCount + b.speedCount,
+  movingSeconds: a.movingSeconds + b.movingSeconds,
+  minBattery: pick(a.minBattery, b.minBattery, Math.min),
+  maxBattery: pick(a.maxBattery, b.maxBattery, Math.max),
+  firstAt: a.firstAt < b.firstAt ? a.firstAt : b.firstAt,
+  lastAt: a.lastAt > b.lastAt ? a.lastAt : b.lastAt,
+});
+
+@Injectable()
+export class RollupsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+  ) {}
+
+  // Called from the ingest path for every stored point
+  async update(code: string, point: RollupPoint) {
+    return updateRollups(this.prisma, code, point);
+  }
+
+  // Hourly or daily buckets over a window plus their totals, read from the
+  // rollups only so long ranges stay cheap
+  async getRollups(code: string, userId: number, query: RollupsQueryDto) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+    const period = query.period ?? 'DAY';
+
+    const owner = await this.prisma.device.findUniqueOrThrow({
+      where: { code },
+      select: { user: { select: { timezone: true } } },
+    });
+
+    // Include the bucket the window starts in
+    const rows = await this.prisma.telemetryRollup.findMany({
+      where: {
+        deviceCode: code,
+        period,
+        bucket: {
+          gte:
+            window.from &&
+            rollupBucket(window.from, period, rollupTimezone(owner)),
+          lte: window.to,
+        },
+      },
+      orderBy: { bucket: 'asc' },
+    });
+
+    const totals = rows.reduce<RollupTotals | null>(
+      (sum, row) => (sum ? combine(sum, row) : row),
+      null,
+    );
+
+    return {
+      code,
+      period,
+      from: window.from ?? null,
+      to: window.to ?? null,
+      totals: totals && summarize(totals),
+      buckets: rows.map((row) => ({ bucket: row.bucket, ...summarize(row) })),
+    };
+  }
+}
@@ -0,0 +1,69 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Put,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiBody, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Request } from 'express';
+import { JwtAuthGuard } from 'src/auth/jwt-auth.guard';
+import { CreateSpeedRuleDto } from './dto/create-speed-rule.dto';
+import { UpdateSpeedRuleDto } from './dto/update-speed-rule.dto';
+import { SpeedRulesService } from './speed-rules.service';
+
+@ApiTags('Devices')
+@UseGuards(JwtAuthGuard)
+@ApiBearerAuth('JWT-auth')
+@Controller('devices/:code/speed-rules')
+export class SpeedRulesController {
+  constructor(private readonly speedRulesService: SpeedRulesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List overspeed rules of a device' })
+  findAll(@Param('code') code: string, @Req() req: Request) {
+    const user = req.user as { id: number };
+    return this.speedRulesService.findAll(code, user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Create an overspeed rule for a device' })
+  @ApiBody({ type: CreateSpeedRuleDto })
+  create(
+    @Param('code') code: string,
+    @Body() dto: CreateSpeedRuleDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.speedRulesService.create(code, user.id, dto);
+  }
+
+  @Put(':id')
+  @ApiOperation({ summary: 'Update an overspeed rule' })
+  @ApiBody({ type: UpdateSpeedRuleDto })
+  update(
+    @Param('code') code: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: UpdateSpeedRuleDto,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.speedRulesService.update(code, id, user.id, dto);
+  }
+
+  @Delete(':id')
+  @ApiOperation({ summary: 'Delete an overspeed rule' })
+  remove(
+    @Param('code') code: string,
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: Request,
+  ) {
+    const user = req.user as { id: number };
+    return this.speedRulesService.remove(code, id, user.id);
+  }
+}
@@ -0,0 +1,111 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { evaluateSpeedRules, SpeedPoint } from '../shared/overspeed';
+import { DeviceAccessService } from './device-access.service';
+import { CreateSpeedRuleDto } from './dto/create-speed-rule.dto';
+import { UpdateSpeedRuleDto } from './dto/update-speed-rule.dto';
+
+@Injectable()
+export class SpeedRulesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+  ) {}
+
+  async findAll(code: string, userId: number) {
+    const device = await this.deviceAccess.getViewableDevice(code, userId);
+
+    return this.prisma.speedRule.findMany({
+      where: { deviceId: device.id },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async create(code: string, userId: number, dto: CreateSpeedRuleDto) {
+    const device = await this.deviceAccess.getManageableDevice(code, userId);
+    this.checkActiveHours(dto.activeFrom, dto.activeTo);
+
+    return this.prisma.speedRule.create({
+      data: {
+        deviceId: device.id,
+        limit: dto.limit,
+        minDurationSeconds: dto.minDurationSeconds ?? 0,
+        activeFrom: dto.activeFrom,
+        activeTo: dto.activeTo,
+        isActive: dto.isActive ?? true,
+      },
+    });
+  }
+
+  async update(
+    code: string,
+    id: number,
+    userId: number,
+    dto: UpdateSpeedRuleDto,
+  ) {
+    const device = await this.deviceAccess.getManageableDevice(code, userId);
+    const existing = await this.findOwnedRule(device.id, id);
+
+    const activeFrom =
+      dto.activeFrom !== undefined ? dto.activeFrom : existing.activeFrom;
+    const activeTo =
+      dto.activeTo !== undefined ? dto.activeTo : existing.activeTo;
+    this.checkActiveHours(activeFrom, activeTo);
+
+    return this.prisma.speedRule.update({
+      where: { id: existing.id },
+      data: {
+        limit: dto.limit,
+        minDurationSeconds: dto.minDurationSeconds,
+        activeFrom: dto.activeFrom,
+        activeTo: dto.activeTo,
+        isActive: dto.isActive,
+        // A changed rule starts a fresh episode with the next point
+        exceedingSince: null,
+        alerted: false,
+        stateChangedAt: null,
+      },
+    });
+  }
+
+  async remove(code: string, id: number, userId: number) {
+    const device = await this.deviceAccess.getManageableDevice(code, userId);
+    const existing = await this.findOwnedRule(device.id, id);
+
+    await this.prisma.speedRule.delete({ where: { id: existing.id } });
+
+    return { message: 'Speed rule deleted' };
+  }
+
+  // Called from the ingest path for every stored point
+  async evaluate(code: string, point: SpeedPoint) {
+    return evaluateSpeedRules(this.prisma, code, point);
+  }
+
+  private async findOwnedRule(deviceId: number, id: number) {
+    const rule = await this.prisma.speedRule.findFirst({
+      where: { id, deviceId },
+    });
+
+    if (!rule) {
+      throw new NotFoundException('Speed rule not found');
+    }
+
+    return rule;
+  }
+
+  private checkActiveHours(from?: string | null, to?: string | null) {
+    if (!from !== !to) {
+      throw new BadRequestException(
+        'activeFrom and activeTo must be given together',
+      );
+    }
+    if (from && from === to) {
+      throw new BadRequestException('activeFrom and activeTo must differ');
+    }
+  }
+}
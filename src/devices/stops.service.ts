@@ -0,0 +1,47 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { detectStops } from '../shared/stops';
+import { GeocodingService } from '../geocoding/geocoding.service';
+import { HistoryWindowQuery } from '../shared/time-window';
+import { DeviceAccessService } from './device-access.service';
+import { TrackingPointsService } from './tracking-points.service';
+
+@Injectable()
+export class StopsService {
+  constructor(
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+    private readonly geocoding: GeocodingService,
+  ) {}
+
+  async getStops(
+    code: string,
+    userId: number,
+    query: HistoryWindowQuery,
+    minMinutes?: string,
+  ) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+
+    const minDwellMinutes = minMinutes === undefined ? 5 : Number(minMinutes);
+    if (!Number.isFinite(minDwellMinutes) || minDwellMinutes < 1) {
+      throw new BadRequestException(
+        'minMinutes must be a number of at least 1',
+      );
+    }
+
+    const points = await this.trackingPoints.loadPoints(
+      code,
+      await this.trackingPoints.resolveWindow(userId, query),
+    );
+
+    const stops = detectStops(points, {
+      minDwellSeconds: minDwellMinutes * 60,
+    });
+
+    return Promise.all(
+      stops.map(async (stop) => ({
+        ...stop,
+        address: await this.geocoding.reverse(stop),
+      })),
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { ScheduledHandler } from 'aws-lambda'
+import { prisma } from '../shared/prisma-client'
+import { sweepOfflineDevices } from '../shared/connectivity'
+import { broadcastToDevice } from '../shared/websocket-broadcast'
+import { Logger } from '../shared/utils'
+
+/**
+ * Scheduled sweep marking silent devices as offline and alerting their rooms
+ */
+export const handler: ScheduledHandler = async () => {
+  try {
+    const transitions = await sweepOfflineDevices(prisma)
+
+    if (transitions.length === 0) {
+      Logger.debug('No devices went offline')
+      return
+    }
+
+    Logger.info('Devices went offline', {
+      deviceCodes: transitions.map(({ event }) => event.deviceCode)
+    })
+
+    if (!process.env.WEBSOCKET_ENDPOINT) return
+
+    for (const { event, alert } of transitions) {
+      await broadcastToDevice(event.deviceCode, { type: 'connectivity', deviceCode: event.deviceCode, data: event })
+      await broadcastToDevice(event.deviceCode, { type: 'alert', deviceCode: event.deviceCode, data: alert })
+    }
+  } catch (error) {
+    Logger.error('Offline sweep failed', error)
+    throw error
+  }
+}
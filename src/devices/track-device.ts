@@ -1,6 +1,19 @@
 import { APIGatewayProxyHandler } from 'aws-lambda'
-import { ApiGatewayManagementApi, DynamoDB } from 'aws-sdk'
+import { Alert, ConnectivityEvent, FixQuality, WeightEvent } from '@prisma/client'
 import { prisma } from '../shared/prisma-client'
+import { toGeoPoint } from '../shared/geo'
+import { evaluateGeofences, GeofenceEventWithName } from '../shared/geofence'
+import { advanceOdometer } from '../shared/odometer'
+import { updateRollups } from '../shared/rollups'
+import { updateLastPosition } from '../shared/last-position'
+import { evaluateSpeedRules } from '../shared/overspeed'
+import { updateBattery } from '../shared/battery'
+import { updateWeight } from '../shared/weight'
+import { broadcastToDevice } from '../shared/websocket-broadcast'
+import { markDeviceSeen } from '../shared/connectivity'
+import { isLatestFix, resolveFixTime } from '../shared/fix-time'
+import { classifyIncomingFix, gpsQualityOptionsFromEnv } from '../shared/gps-quality'
+import { parseTelemetry, Telemetry, TelemetryInput } from '../shared/telemetry'
 import {
   successResponse,
   errorResponse,
@@ -11,34 +24,46 @@ import {
   handleWarmup
 } from '../shared/utils'
 
-interface TrackDeviceRequest {
-  lat: string
-  long: string
-  level?: string
-  altitude?: string
-  speed?: string
-  compress?: string
-  weight?: string
-  noOfSatellites?: string
+// Telemetry may be sent as numbers or numeric strings; see TELEMETRY_RANGES for units
+interface TrackDeviceRequest extends TelemetryInput {
+  fixTime?: string // ISO 8601, when the device took the fix
 }
 
 interface LocationUpdate {
   type: string
   deviceCode: string
   iotSimNumber: string
-  data: {
-    lat: string
-    long: string
-    level?: string
-    altitude?: string
-    speed?: string
-    compress?: string
-    weight?: string
-    noOfSatellites?: string
+  data: Telemetry & {
     trackedAt: string
+    receivedAt: string
+    quality: FixQuality
   }
 }
 
+interface GeofenceEventMessage {
+  type: string
+  deviceCode: string
+  data: GeofenceEventWithName
+}
+
+interface AlertMessage {
+  type: string
+  deviceCode: string
+  data: Alert
+}
+
+interface ConnectivityMessage {
+  type: string
+  deviceCode: string
+  data: ConnectivityEvent
+}
+
+interface WeightEventMessage {
+  type: string
+  deviceCode: string
+  data: WeightEvent
+}
+
 export const handler: APIGatewayProxyHandler = async (event) => {
   try {
     // Handle warmup requests
@@ -64,22 +89,36 @@ export const handler: APIGatewayProxyHandler = async (event) => {
       return errorResponse(validationError, 400)
     }
 
+    // Convert and range-check the numeric telemetry
+    const { telemetry, errors } = parseTelemetry(body)
+    if (!telemetry) {
+      return errorResponse(errors.join('; '), 400)
+    }
+
     const {
       lat,
       long,
       level,
       altitude,
       speed,
+      course,
       compress,
       weight,
       noOfSatellites
-    } = body
+    } = telemetry
+
+    // Buffered or delayed points carry the time the fix was taken
+    const receivedAt = new Date()
+    const { fixTime: trackedAt, error: fixTimeError } = resolveFixTime(body.fixTime, receivedAt)
+    if (!trackedAt) {
+      return errorResponse(fixTimeError || 'Invalid fixTime', 400)
+    }
 
     Logger.info('Processing tracking data', {
       deviceCode: code,
       iotSimNumber,
-      lat: lat.substring(0, 8) + '...', // Partial coordinates for privacy
-      long: long.substring(0, 8) + '...'
+      lat: lat.toFixed(2) + '...', // Partial coordinates for privacy
+      long: long.toFixed(2) + '...'
     })
 
     // Verify device exists and get assigned user
@@ -112,7 +151,13 @@ export const handler: APIGatewayProxyHandler = async (event) => {
       })
     }
 
-    const trackedAt = new Date()
+    // Outliers and duplicates are stored for auditing but not acted on
+    const { quality, reason } = await classifyIncomingFix(
+      prisma,
+      code,
+      { lat, long, noOfSatellites, trackedAt },
+      gpsQualityOptionsFromEnv()
+    )
 
     // Save tracking data to database
     const trackingRecord = await prisma.tracking.create({
@@ -124,10 +169,14 @@ export const handler: APIGatewayProxyHandler = async (event) => {
         level,
         altitude,
         speed,
+        course,
         compress,
         weight,
         noOfSatellites,
         trackedAt,
+        receivedAt,
+        quality,
+        qualityReason: reason,
         userId: device.assignedTo
       }
     })
@@ -135,30 +184,140 @@ export const handler: APIGatewayProxyHandler = async (event) => {
     Logger.info('Tracking data saved', {
       trackingId: trackingRecord.id,
       deviceCode: code,
-      userId: device.assignedTo
+      userId: device.assignedTo,
+      quality,
+      qualityReason: reason
     })
 
-    // Broadcast to WebSocket connections if endpoint is configured
+    const accepted = quality !== 'REJECTED'
+
+    // Broadcast to WebSocket connections if endpoint is configured, unless a
+    // newer fix has already been stored
     const websocketEndpoint = process.env.WEBSOCKET_ENDPOINT
-    if (websocketEndpoint) {
+    if (websocketEndpoint && accepted && (await isLatestFix(prisma, code, trackingRecord))) {
       await broadcastLocationUpdate(code, iotSimNumber, {
         lat,
         long,
         level,
         altitude,
         speed,
+        course,
         compress,
         weight,
         noOfSatellites,
-        trackedAt: trackedAt.toISOString()
+        trackedAt: trackedAt.toISOString(),
+        receivedAt: receivedAt.toISOString(),
+        quality
+      })
+    }
+
+    // Any point, late or not, shows the device is reporting
+    const cameOnline = await markDeviceSeen(prisma, code, receivedAt)
+    if (cameOnline && websocketEndpoint) {
+      const message: ConnectivityMessage = {
+        type: 'connectivity',
+        deviceCode: code,
+        data: cameOnline
+      }
+      await broadcastToDevice(code, message)
+    }
+
+    const point = toGeoPoint({ lat, long })
+    if (point && accepted) {
+      await updateLastPosition(prisma, trackingRecord)
+      const distance = await advanceOdometer(prisma, code, { ...point, id: trackingRecord.id, trackedAt })
+      await updateRollups(prisma, code, { speed, level, distance, trackedAt })
+
+      // Evaluate enter/exit transitions for the device's geofences
+      const geofenceEvents = await evaluateGeofences(prisma, code, {
+        ...point,
+        trackingId: trackingRecord.id,
+        occurredAt: trackedAt
+      })
+
+      if (geofenceEvents.length > 0) {
+        Logger.info('Geofence transitions recorded', {
+          deviceCode: code,
+          events: geofenceEvents.map(event => ({
+            geofenceId: event.geofenceId,
+            transition: event.transition
+          }))
+        })
+
+        if (websocketEndpoint) {
+          for (const geofenceEvent of geofenceEvents) {
+            const message: GeofenceEventMessage = {
+              type: 'geofence-event',
+              deviceCode: code,
+              data: geofenceEvent
+            }
+            await broadcastToDevice(code, message)
+          }
+        }
+      }
+
+      // Overspeed and battery alerts are raised once per episode
+      const alerts = await evaluateSpeedRules(prisma, code, {
+        ...point,
+        trackingId: trackingRecord.id,
+        speed,
+        trackedAt
+      })
+
+      const batteryAlert = await updateBattery(prisma, code, {
+        ...point,
+        trackingId: trackingRecord.id,
+        level,
+        trackedAt
       })
+      if (batteryAlert) alerts.push(batteryAlert)
+
+      // Loading/unloading events, and an alert for load lost while moving
+      const weightResult = await updateWeight(prisma, code, {
+        ...point,
+        trackingId: trackingRecord.id,
+        weight,
+        speed,
+        trackedAt
+      })
+      if (weightResult.alert) alerts.push(weightResult.alert)
+
+      if (weightResult.event && websocketEndpoint) {
+        const message: WeightEventMessage = {
+          type: 'weight-event',
+          deviceCode: code,
+          data: weightResult.event
+        }
+        await broadcastToDevice(code, message)
+      }
+
+      if (alerts.length > 0) {
+        Logger.info('Alerts raised', {
+          deviceCode: code,
+          alerts: alerts.map(alert => ({ id: alert.id, type: alert.type }))
+        })
+
+        if (websocketEndpoint) {
+          for (const alert of alerts) {
+            const message: AlertMessage = {
+              type: 'alert',
+              deviceCode: code,
+              data: alert
+            }
+            await broadcastToDevice(code, message)
+          }
+        }
+      }
     }
 
     return successResponse(
       {
         trackingId: trackingRecord.id,
         deviceCode: code,
-        trackedAt: trackedAt.toISOString()
+        trackedAt: trackedAt.toISOString(),
+        receivedAt: receivedAt.toISOString(),
+        quality,
+        qualityReason: reason
       },
       'Location tracked successfully'
     )
@@ -179,92 +338,14 @@ export const handler: APIGatewayProxyHandler = async (event) => {
 async function broadcastLocationUpdate(
   deviceCode: string,
   iotSimNumber: string,
-  locationData: any
+  locationData: LocationUpdate['data']
 ): Promise<void> {
-  try {
-    const websocketEndpoint = process.env.WEBSOCKET_ENDPOINT
-    if (!websocketEndpoint) {
-      Logger.warn('WebSocket endpoint not configured')
-      return
-    }
-
-    const apiGateway = new ApiGatewayManagementApi({
-      endpoint: websocketEndpoint
-    })
-
-    const dynamodb = new DynamoDB.DocumentClient()
-    const tableName = `WebSocketConnections-${process.env.STAGE || 'dev'}`
-
-    // Find connections for this device
-    const connections = await dynamodb.query({
-      TableName: tableName,
-      IndexName: 'DeviceCodeIndex',
-      KeyConditionExpression: 'deviceCode = :deviceCode',
-      ExpressionAttributeValues: {
-        ':deviceCode': deviceCode
-      }
-    }).promise()
-
-    if (!connections.Items || connections.Items.length === 0) {
-      Logger.info('No WebSocket connections found for device', { deviceCode })
-      return
-    }
-
-    const locationUpdate: LocationUpdate = {
-      type: 'location-update',
-      deviceCode,
-      iotSimNumber,
-      data: locationData
-    }
-
-    const message = JSON.stringify(locationUpdate)
-
-    // Broadcast to all connected clients for this device
-    const broadcastPromises = connections.Items.map(async (connection) => {
-      try {
-        await apiGateway.postToConnection({
-          ConnectionId: connection.connectionId,
-          Data: message
-        }).promise()
-        
-        Logger.debug('Location update sent to connection', {
-          connectionId: connection.connectionId,
-          deviceCode
-        })
-      } catch (error: any) {
-        Logger.warn('Failed to send to connection', {
-          connectionId: connection.connectionId,
-          error: error.message
-        })
-        
-        // Connection is stale (410 Gone), remove it
-        if (error.statusCode === 410) {
-          try {
-            await dynamodb.delete({
-              TableName: tableName,
-              Key: { connectionId: connection.connectionId }
-            }).promise()
-            
-            Logger.info('Removed stale WebSocket connection', {
-              connectionId: connection.connectionId
-            })
-          } catch (deleteError) {
-            Logger.error('Failed to remove stale connection', deleteError)
-          }
-        }
-      }
-    })
-
-    await Promise.all(broadcastPromises)
-    
-    Logger.info('Location update broadcasted', {
-      deviceCode,
-      connectionsCount: connections.Items.length
-    })
-  } catch (error) {
-    Logger.error('Failed to broadcast location update', {
-      deviceCode,
-      error
-    })
+  const locationUpdate: LocationUpdate = {
+    type: 'location-update',
+    deviceCode,
+    iotSimNumber,
+    data: locationData
   }
-}
\ No newline at end of file
+
+  await broadcastToDevice(deviceCode, locationUpdate)
+}
@@ -0,0 +1,63 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  HistoryWindowQuery,
+  resolveHistoryWindow,
+} from '../shared/time-window';
+import { toTrackPoints, TrackPoint } from '../shared/track';
+
+export interface TrackingWindow {
+  from?: Date;
+  to?: Date;
+}
+
+@Injectable()
+export class TrackingPointsService {
+  constructor(private readonly prisma: PrismaService) {}
+
+  /**
+   * Resolve `date`/`from`/`to`/`tz` to a UTC window, falling back to the
+   * user's timezone preference for day-based queries.
+   */
+  async resolveWindow(userId: number, query: HistoryWindowQuery) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { timezone: true },
+    });
+
+    const { window, error } = resolveHistoryWindow(query, user?.timezone);
+    if (error || !window) {
+      throw new BadRequestException(error);
+    }
+
+    return window;
+  }
+
+  // Parsed points of a device within a window, oldest first, without rejected
+  // fixes
+  async loadPoints(
+    code: string,
+    window: TrackingWindow,
+  ): Promise<TrackPoint[]> {
+    const rows = await this.prisma.tracking.findMany({
+      where: {
+        deviceCode: code,
+        trackedAt: {
+          gte: window.from,
+          lte: window.to,
+        },
+        quality: { not: 'REJECTED' },
+      },
+      orderBy: [{ trackedAt: 'asc' }, { id: 'asc' }],
+      select: {
+        id: true,
+        lat: true,
+        long: true,
+        speed: true,
+        trackedAt: true,
+      },
+    });
+
+    return toTrackPoints(rows);
+  }
+}
@@ -4,21 +4,75 @@ import {
   SubscribeMessage,
   ConnectedSocket,
   MessageBody,
+  OnGatewayDisconnect,
 } from '@nestjs/websockets';
 import { Server, Socket } from 'socket.io';
+import { parsePlaybackCommand } from '../shared/playback';
+import { PlaybackService } from './playback.service';
 
 @WebSocketGateway({ cors: true })
-export class TrackingGateway {
+export class TrackingGateway implements OnGatewayDisconnect {
   @WebSocketServer()
   server: Server;
 
+  constructor(private readonly playbackService: PlaybackService) {}
+
+  handleDisconnect(client: Socket) {
+    this.playbackService.stop(client.id, false);
+  }
+
   @SubscribeMessage('join-room')
   handleJoinRoom(@MessageBody() deviceCode: string, @ConnectedSocket() client: Socket) {
     client.join(deviceCode);
     console.log(`Client ${client.id} joined room: ${deviceCode}`);
   }
 
+  // Replays stored points to this client only; progress is reported as 'playback-status'
+  @SubscribeMessage('playback')
+  async handlePlayback(
+    @MessageBody() body: unknown,
+    @ConnectedSocket() client: Socket,
+  ) {
+    const { command, error } = parsePlaybackCommand(body);
+    if (!command) {
+      client.emit('playback-status', { status: 'error', message: error });
+      return;
+    }
+
+    try {
+      if (command.command === 'start') {
+        const token =
+          command.token ?? (client.handshake.auth?.token as string | undefined);
+        const userId = await this.playbackService.authenticate(token);
+        await this.playbackService.start(client, userId, command);
+      } else {
+        this.playbackService.control(client, command);
+      }
+    } catch (err) {
+      client.emit('playback-status', {
+        status: 'error',
+        message: err instanceof Error ? err.message : 'Playback failed',
+      });
+    }
+  }
+
   sendLocationUpdate(deviceCode: string, data: any) {
     this.server.to(deviceCode).emit('location-update', data);
   }
+
+  sendGeofenceEvent(deviceCode: string, data: any) {
+    this.server.to(deviceCode).emit('geofence-event', data);
+  }
+
+  sendWeightEvent(deviceCode: string, data: any) {
+    this.server.to(deviceCode).emit('weight-event', data);
+  }
+
+  sendConnectivity(deviceCode: string, data: any) {
+    this.server.to(deviceCode).emit('connectivity', data);
+  }
+
+  sendAlert(deviceCode: string, data: any) {
+    this.server.to(deviceCode).emit('alert', data);
+  }
 }
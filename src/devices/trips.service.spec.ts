@@ -0,0 +1,92 @@
+import { NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { GeocodingService } from '../geocoding/geocoding.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { TrackPoint } from '../shared/track';
+import { DeviceAccessService } from './device-access.service';
+import { TrackingPointsService } from './tracking-points.service';
+import { TripsService } from './trips.service';
+
+const START = new Date('2026-01-01T23:50:00Z');
+
+const point = (id: number, minutes: number, lat: number): TrackPoint => ({
+  id,
+  lat,
+  long: 77.59,
+  speed: 30,
+  trackedAt: new Date(START.getTime() + minutes * 60 * 1000),
+});
+
+describe('TripsService.getTrip', () => {
+  const findFirst = jest.fn();
+  const loadPoints = jest.fn();
+  let service: TripsService;
+
+  beforeEach(async () => {
+    findFirst.mockReset().mockResolvedValue({ trackedAt: START });
+    loadPoints.mockReset();
+
+    const module = await Test.createTestingModule({
+      providers: [
+        TripsService,
+        { provide: PrismaService, useValue: { tracking: { findFirst } } },
+        {
+          provide: DeviceAccessService,
+          useValue: { getViewableDevice: jest.fn().mockResolvedValue({}) },
+        },
+        { provide: TrackingPointsService, useValue: { loadPoints } },
+        {
+          provide: GeocodingService,
+          useValue: { reverse: jest.fn().mockResolvedValue(null) },
+        },
+      ],
+    }).compile();
+
+    service = module.get(TripsService);
+  });
+
+  it('looks for the trip up to 24 hours after its first point', async () => {
+    // Starts before midnight and ends the next day
+    loadPoints.mockResolvedValue([
+      point(7, 0, 12.9),
+      point(8, 10, 12.91),
+      point(9, 20, 12.92),
+    ]);
+
+    const trip = await service.getTrip('DEV', 7, 1);
+
+    expect(loadPoints).toHaveBeenCalledWith('DEV', {
+      from: START,
+      to: new Date('2026-01-02T23:50:00Z'),
+    });
+    expect(trip).toMatchObject({
+      id: 7,
+      endedAt: new Date('2026-01-02T00:10:00Z'),
+      pointCount: 3,
+      startAddress: null,
+      endAddress: null,
+    });
+    expect(trip.points).toHaveLength(3);
+  });
+
+  it('rejects an id that does not start a trip', async () => {
+    loadPoints.mockResolvedValue([
+      point(7, 0, 12.9),
+      point(8, 10, 12.91),
+      point(9, 20, 12.92),
+    ]);
+
+    await expect(service.getTrip('DEV', 8, 1)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+  });
+
+  it('rejects an unknown tracking id', async () => {
+    findFirst.mockResolvedValue(null);
+
+    await expect(service.getTrip('DEV', 42, 1)).rejects.toBeInstanceOf(
+      NotFoundException,
+    );
+    expect(loadPoints).not.toHaveBeenCalled();
+  });
+});
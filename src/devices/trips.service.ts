@@ -0,0 +1,72 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { HistoryWindowQuery } from '../shared/time-window';
+import { detectTrips, summarizeTrip, TripSummary } from '../shared/trips';
+import { GeocodingService } from '../geocoding/geocoding.service';
+import { DeviceAccessService } from './device-access.service';
+import { TrackingPointsService } from './tracking-points.service';
+
+// How far after its first point a single trip is looked for when drilling down
+const TRIP_LOOKAHEAD_MS = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class TripsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+    private readonly geocoding: GeocodingService,
+  ) {}
+
+  async getTrips(code: string, userId: number, query: HistoryWindowQuery) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+
+    const points = await this.trackingPoints.loadPoints(
+      code,
+      await this.trackingPoints.resolveWindow(userId, query),
+    );
+
+    return Promise.all(
+      detectTrips(points).map((trip) =>
+        this.withAddresses(summarizeTrip(trip)),
+      ),
+    );
+  }
+
+  // Trips are identified by the tracking id of their first point
+  async getTrip(code: string, tripId: number, userId: number) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+
+    const start = await this.prisma.tracking.findFirst({
+      where: { id: tripId, deviceCode: code },
+      select: { trackedAt: true },
+    });
+
+    if (!start) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    const points = await this.trackingPoints.loadPoints(code, {
+      from: start.trackedAt,
+      to: new Date(start.trackedAt.getTime() + TRIP_LOOKAHEAD_MS),
+    });
+
+    const trip = detectTrips(points).find(
+      (candidate) => candidate.id === tripId,
+    );
+    if (!trip) {
+      throw new NotFoundException('Trip not found');
+    }
+
+    return this.withAddresses(trip);
+  }
+
+  private async withAddresses<T extends TripSummary>(trip: T) {
+    const [startAddress, endAddress] = await Promise.all([
+      this.geocoding.reverse({ lat: trip.startLat, long: trip.startLong }),
+      this.geocoding.reverse({ lat: trip.endLat, long: trip.endLong }),
+    ]);
+
+    return { ...trip, startAddress, endAddress };
+  }
+}
@@ -0,0 +1,69 @@
+import { Injectable } from '@nestjs/common';
+import { WeightEventType } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { HistoryWindowQuery } from '../shared/time-window';
+import { updateWeight, WeightPoint } from '../shared/weight';
+import { DeviceAccessService } from './device-access.service';
+import { TrackingPointsService } from './tracking-points.service';
+
+@Injectable()
+export class WeightService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly deviceAccess: DeviceAccessService,
+    private readonly trackingPoints: TrackingPointsService,
+  ) {}
+
+  // Called from the ingest path for every stored point
+  async update(code: string, point: WeightPoint) {
+    return updateWeight(this.prisma, code, point);
+  }
+
+  // Settled load plus every reported reading over a window, for charting
+  async getWeight(code: string, userId: number, query: HistoryWindowQuery) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+
+    const [device, readings] = await Promise.all([
+      this.prisma.device.findUniqueOrThrow({
+        where: { code },
+        select: { weightBaseline: true, weightUpdatedAt: true },
+      }),
+      this.prisma.tracking.findMany({
+        where: {
+          deviceCode: code,
+          weight: { not: null },
+          trackedAt: { gte: window.from, lte: window.to },
+        },
+        select: { weight: true, speed: true, trackedAt: true },
+        orderBy: [{ trackedAt: 'asc' }, { id: 'asc' }],
+      }),
+    ]);
+
+    return {
+      code,
+      currentWeight: device.weightBaseline,
+      lastUpdatedAt: device.weightUpdatedAt,
+      series: readings,
+    };
+  }
+
+  async getEvents(
+    code: string,
+    userId: number,
+    query: HistoryWindowQuery,
+    type?: WeightEventType,
+  ) {
+    await this.deviceAccess.getViewableDevice(code, userId);
+    const window = await this.trackingPoints.resolveWindow(userId, query);
+
+    return this.prisma.weightEvent.findMany({
+      where: {
+        deviceCode: code,
+        type,
+        occurredAt: { gte: window.from, lte: window.to },
+      },
+      orderBy: { occurredAt: 'desc' },
+    });
+  }
+}
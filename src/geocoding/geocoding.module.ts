@@ -0,0 +1,25 @@
+import { Logger, Module } from '@nestjs/common';
+import { createGeocodingProvider } from '../shared/geocoding';
+import { GEOCODING_PROVIDER, GeocodingService } from './geocoding.service';
+
+@Module({
+  providers: [
+    {
+      provide: GEOCODING_PROVIDER,
+      useFactory: () => {
+        const name = process.env.GEOCODING_PROVIDER;
+        if (!name) {
+          // Addresses would silently be approximations from the bundled list
+          new Logger('GeocodingModule').warn(
+            'GEOCODING_PROVIDER is not set, falling back to the offline place list',
+          );
+          return createGeocodingProvider('offline');
+        }
+        return createGeocodingProvider(name);
+      },
+    },
+    GeocodingService,
+  ],
+  exports: [GeocodingService],
+})
+export class GeocodingModule {}
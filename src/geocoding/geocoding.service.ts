@@ -0,0 +1,52 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { GeoPoint } from '../shared/geo';
+import {
+  Address,
+  geocodeCacheKey,
+  GeocodingProvider,
+} from '../shared/geocoding';
+
+export const GEOCODING_PROVIDER = 'GEOCODING_PROVIDER';
+
+// Oldest entries are dropped beyond this many cached coordinates
+const CACHE_MAX_ENTRIES = 10000;
+
+@Injectable()
+export class GeocodingService {
+  private readonly logger = new Logger(GeocodingService.name);
+  private readonly cache = new Map<string, Promise<Address | null>>();
+
+  constructor(
+    @Inject(GEOCODING_PROVIDER) private readonly provider: GeocodingProvider,
+  ) {}
+
+  /**
+   * Address of a point, or null when the provider has none. Lookups are
+   * cached by rounded coordinates; provider failures are logged and yield
+   * null so they never break the report that asked for the address.
+   */
+  async reverse(point: GeoPoint): Promise<Address | null> {
+    const key = geocodeCacheKey(point);
+
+    let lookup = this.cache.get(key);
+    if (!lookup) {
+      lookup = this.provider.reverse(point);
+      this.cache.set(key, lookup);
+      if (this.cache.size > CACHE_MAX_ENTRIES) {
+        this.cache.delete(this.cache.keys().next().value as string);
+      }
+    }
+
+    try {
+      return await lookup;
+    } catch (error) {
+      // Let the next request retry
+      this.cache.delete(key);
+      this.logger.warn(
+        `Reverse geocoding with ${this.provider.name} failed for ${key}`,
+        error,
+      );
+      return null;
+    }
+  }
+}
@@ -0,0 +1,206 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import Aedes, {
+  AuthenticateError,
+  AuthErrorCode,
+  Client,
+  createBroker,
+} from 'aedes';
+import { createServer, Server } from 'net';
+import { PrismaService } from '../prisma/prisma.service';
+import { DevicesService } from '../devices/devices.service';
+import { validateTrackPoint } from '../devices/dto/track-device.dto';
+import { MAX_TRACK_BATCH_SIZE } from '../devices/dto/track-batch.dto';
+import {
+  deviceCodeFromTopic,
+  parseTelemetryPayload,
+} from '../shared/mqtt-telemetry';
+
+interface DeviceCredentials {
+  code: string;
+  iotSimNumber: string;
+}
+
+// CONNACK return codes; aedes only declares them as a const enum
+const BAD_USERNAME_OR_PASSWORD = 4 as AuthErrorCode;
+const NOT_AUTHORIZED = 5 as AuthErrorCode;
+
+const authError = (message: string, returnCode: AuthErrorCode) =>
+  Object.assign(new Error(message), { returnCode }) as AuthenticateError;
+
+/**
+ * Embedded MQTT broker for trackers. Devices connect with their code as the
+ * username and IoT SIM number as the password, and may only publish to their
+ * own devices/{code}/telemetry topic. Runs only when MQTT_PORT is set.
+ */
+@Injectable()
+export class MqttIngestService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(MqttIngestService.name);
+  private readonly devices = new WeakMap<Client, DeviceCredentials>();
+  private broker?: Aedes;
+  private server?: Server;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly devicesService: DevicesService,
+  ) {}
+
+  onModuleInit() {
+    const port = Number(process.env.MQTT_PORT);
+    if (!process.env.MQTT_PORT || !Number.isInteger(port)) {
+      return;
+    }
+
+    this.listen(port).catch((error) =>
+      this.logger.error('MQTT broker failed to start', error),
+    );
+  }
+
+  async onModuleDestroy() {
+    await this.close();
+  }
+
+  // Start the broker; `port` 0 picks a free port, which is returned
+  async listen(port: number, host = process.env.MQTT_HOST) {
+    const broker = createBroker({
+      authenticate: (client, username, password, done) => {
+        this.authenticate(client, username, password?.toString())
+          .then(() => done(null, true))
+          .catch((error: AuthenticateError) => done(error, false));
+      },
+      authorizePublish: (client, packet, done) => {
+        const device = client && this.devices.get(client);
+        done(
+          device && deviceCodeFromTopic(packet.topic) === device.code
+            ? null
+            : new Error(`Publishing to ${packet.topic} is not allowed`),
+        );
+      },
+      // Devices only publish; nothing is delivered back to them
+      authorizeSubscribe: (client, subscription, done) => {
+        done(new Error('Subscriptions are not allowed'));
+      },
+      published: (packet, client, done) => {
+        const device = client && this.devices.get(client);
+        if (!device) {
+          done();
+          return;
+        }
+
+        // Waiting here keeps a device's fixes in the order it sent them
+        this.ingest(device, packet.payload)
+          .catch((error) =>
+            this.logger.error(`MQTT ingest for ${device.code} failed`, error),
+          )
+          .finally(() => done());
+      },
+    });
+
+    const server = createServer((socket) => broker.handle(socket));
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+
+    this.broker = broker;
+    this.server = server;
+
+    const address = server.address();
+    const boundPort =
+      typeof address === 'object' && address ? address.port : port;
+    this.logger.log(`MQTT broker listening on port ${boundPort}`);
+
+    return boundPort;
+  }
+
+  async close() {
+    const { broker, server } = this;
+    this.broker = undefined;
+    this.server = undefined;
+
+    if (broker) {
+      await new Promise<void>((resolve) => broker.close(() => resolve()));
+    }
+    if (server) {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  private async authenticate(
+    client: Client,
+    username: string | undefined,
+    password: string | undefined,
+  ) {
+    if (!username || !password) {
+      throw authError(
+        'Device code and IoT SIM number are required',
+        BAD_USERNAME_OR_PASSWORD,
+      );
+    }
+
+    const device = await this.prisma.device.findUnique({
+      where: { code: username, iotSimNumber: password },
+      select: { assignedTo: true },
+    });
+    if (!device) {
+      throw authError('Unknown device', BAD_USERNAME_OR_PASSWORD);
+    }
+    if (!device.assignedTo) {
+      throw authError(
+        'This device is not assigned, cannot track.',
+        NOT_AUTHORIZED,
+      );
+    }
+
+    this.devices.set(client, { code: username, iotSimNumber: password });
+  }
+
+  // Store a telemetry payload through the same path as the HTTP endpoints
+  private async ingest(device: DeviceCredentials, payload: Buffer | string) {
+    const { point, points, error } = parseTelemetryPayload(payload);
+
+    if (points) {
+      if (points.length > MAX_TRACK_BATCH_SIZE) {
+        this.logger.warn(
+          `Dropped MQTT batch of ${points.length} points from ${device.code}`,
+        );
+        return;
+      }
+
+      const { created, rejected } = await this.devicesService.trackDeviceBatch(
+        device.code,
+        device.iotSimNumber,
+        { points },
+      );
+      if (rejected > 0) {
+        this.logger.warn(
+          `MQTT batch from ${device.code}: ${created} stored, ${rejected} rejected`,
+        );
+      }
+      return;
+    }
+
+    if (!point) {
+      this.logger.warn(`Dropped MQTT payload from ${device.code}: ${error}`);
+      return;
+    }
+
+    const { dto, errors } = await validateTrackPoint(point);
+    if (!dto) {
+      this.logger.warn(
+        `Dropped MQTT fix from ${device.code}: ${errors.join('; ')}`,
+      );
+      return;
+    }
+
+    await this.devicesService.trackDevice(
+      device.code,
+      device.iotSimNumber,
+      dto,
+    );
+  }
+}
@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DevicesModule } from '../devices/devices.module';
+import { MqttIngestService } from './mqtt-ingest.service';
+
+@Module({
+  imports: [DevicesModule],
+  providers: [MqttIngestService],
+  exports: [MqttIngestService],
+})
+export class MqttModule {}
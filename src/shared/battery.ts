@@ -0,0 +1,99 @@
+// Battery level tracking and low/critical alerts. `Tracking.level` is the
+// tracker battery in percent.
+
+import { Alert, BatteryState, Device, PrismaClient } from '@prisma/client'
+
+export type BatteryThresholds = Pick<
+  Device,
+  'lowBatteryThreshold' | 'lowBatteryRearm' | 'criticalBatteryThreshold' | 'criticalBatteryRearm'
+>
+
+export interface BatteryPoint {
+  trackingId: number
+  lat: number | null
+  long: number | null
+  level: number | null // percent
+  trackedAt: Date
+}
+
+const SEVERITY: Record<BatteryState, number> = { NORMAL: 0, LOW: 1, CRITICAL: 2 }
+
+/**
+ * Next battery state for a reading. The state worsens as soon as a threshold
+ * is crossed but only improves once the level recovers to the re-arm level,
+ * so a battery hovering around a threshold does not raise repeated alerts.
+ */
+export const nextBatteryState = (
+  state: BatteryState,
+  level: number,
+  thresholds: BatteryThresholds
+): { state: BatteryState; raise: boolean } => {
+  const reached: BatteryState =
+    level <= thresholds.criticalBatteryThreshold
+      ? 'CRITICAL'
+      : level <= thresholds.lowBatteryThreshold
+        ? 'LOW'
+        : 'NORMAL'
+
+  if (SEVERITY[reached] >= SEVERITY[state]) {
+    return { state: reached, raise: SEVERITY[reached] > SEVERITY[state] }
+  }
+
+  const rearmed: BatteryState =
+    level >= thresholds.lowBatteryRearm ? 'NORMAL' : level >= thresholds.criticalBatteryRearm ? 'LOW' : 'CRITICAL'
+  const next = SEVERITY[rearmed] < SEVERITY[state] ? rearmed : state
+
+  return { state: SEVERITY[next] > SEVERITY[reached] ? next : reached, raise: false }
+}
+
+/**
+ * Record the battery level of a newly stored point on its device and return
+ * the LOW_BATTERY or CRITICAL_BATTERY alert it raised, if any.
+ */
+export const updateBattery = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: BatteryPoint
+): Promise<Alert | null> => {
+  if (point.level === null) return null
+
+  const device = await client.device.findUnique({
+    where: { code: deviceCode },
+    select: {
+      batteryState: true,
+      batteryUpdatedAt: true,
+      lowBatteryThreshold: true,
+      lowBatteryRearm: true,
+      criticalBatteryThreshold: true,
+      criticalBatteryRearm: true
+    }
+  })
+
+  // Late points must not overwrite a newer reading
+  if (!device || (device.batteryUpdatedAt && point.trackedAt < device.batteryUpdatedAt)) return null
+
+  const next = nextBatteryState(device.batteryState, point.level, device)
+
+  // Guard against a concurrent ingest having already moved the state on
+  const updated = await client.device.updateMany({
+    where: { code: deviceCode, batteryState: device.batteryState, batteryUpdatedAt: device.batteryUpdatedAt },
+    data: { batteryLevel: point.level, batteryUpdatedAt: point.trackedAt, batteryState: next.state }
+  })
+  if (updated.count === 0 || !next.raise) return null
+
+  const critical = next.state === 'CRITICAL'
+
+  return client.alert.create({
+    data: {
+      deviceCode,
+      type: critical ? 'CRITICAL_BATTERY' : 'LOW_BATTERY',
+      message: `Battery ${critical ? 'critically ' : ''}low at ${Math.round(point.level)}%`,
+      value: point.level,
+      threshold: critical ? device.criticalBatteryThreshold : device.lowBatteryThreshold,
+      trackingId: point.trackingId,
+      lat: point.lat,
+      long: point.long,
+      occurredAt: point.trackedAt
+    }
+  })
+}
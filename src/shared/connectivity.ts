@@ -0,0 +1,92 @@
+// Online/offline tracking. A device is online while points keep arriving and
+// goes offline once it has been silent for its reporting interval plus grace.
+
+import { Alert, ConnectivityEvent, Device, PrismaClient } from '@prisma/client'
+
+// How often the sweep runs where nothing else schedules it
+export const OFFLINE_SWEEP_INTERVAL_MS = 60 * 1000
+
+export interface OfflineTransition {
+  event: ConnectivityEvent
+  alert: Alert
+}
+
+// Latest time a point must have arrived for the device to still count as online
+export const offlineDeadline = (
+  device: Pick<Device, 'lastSeenAt' | 'reportingIntervalSeconds' | 'offlineGraceSeconds'>
+): Date | null =>
+  device.lastSeenAt
+    ? new Date(device.lastSeenAt.getTime() + (device.reportingIntervalSeconds + device.offlineGraceSeconds) * 1000)
+    : null
+
+/**
+ * Record that a point was received from a device, bringing it back online if
+ * it was offline. Returns the ONLINE transition when there was one.
+ */
+export const markDeviceSeen = async (
+  client: PrismaClient,
+  deviceCode: string,
+  receivedAt: Date
+): Promise<ConnectivityEvent | null> => {
+  // Points of a batch share one receipt time, so only move lastSeenAt forward
+  await client.device.updateMany({
+    where: { code: deviceCode, OR: [{ lastSeenAt: null }, { lastSeenAt: { lt: receivedAt } }] },
+    data: { lastSeenAt: receivedAt }
+  })
+
+  const cameOnline = await client.device.updateMany({
+    where: { code: deviceCode, connectivity: 'OFFLINE' },
+    data: { connectivity: 'ONLINE', connectivityChangedAt: receivedAt }
+  })
+  if (cameOnline.count === 0) return null
+
+  return client.connectivityEvent.create({
+    data: { deviceCode, status: 'ONLINE', lastSeenAt: receivedAt, occurredAt: receivedAt }
+  })
+}
+
+/**
+ * Mark every online device whose deadline has passed as offline, recording the
+ * transition and raising a DEVICE_OFFLINE alert for each.
+ */
+export const sweepOfflineDevices = async (client: PrismaClient, now = new Date()): Promise<OfflineTransition[]> => {
+  const online = await client.device.findMany({
+    where: { connectivity: 'ONLINE' },
+    select: { code: true, lastSeenAt: true, reportingIntervalSeconds: true, offlineGraceSeconds: true }
+  })
+
+  const transitions: OfflineTransition[] = []
+
+  for (const device of online) {
+    const deadline = offlineDeadline(device)
+    if (deadline && deadline >= now) continue
+
+    // A point may have arrived since the devices were listed
+    const updated = await client.device.updateMany({
+      where: { code: device.code, connectivity: 'ONLINE', lastSeenAt: device.lastSeenAt },
+      data: { connectivity: 'OFFLINE', connectivityChangedAt: now }
+    })
+    if (updated.count === 0) continue
+
+    const event = await client.connectivityEvent.create({
+      data: { deviceCode: device.code, status: 'OFFLINE', lastSeenAt: device.lastSeenAt, occurredAt: now }
+    })
+
+    const silentMinutes = device.lastSeenAt ? Math.round((now.getTime() - device.lastSeenAt.getTime()) / 60000) : null
+    const alert = await client.alert.create({
+      data: {
+        deviceCode: device.code,
+        type: 'DEVICE_OFFLINE',
+        message:
+          silentMinutes !== null ? `No data received for ${silentMinutes} min` : 'Device stopped reporting',
+        value: silentMinutes,
+        threshold: (device.reportingIntervalSeconds + device.offlineGraceSeconds) / 60,
+        occurredAt: now
+      }
+    })
+
+    transitions.push({ event, alert })
+  }
+
+  return transitions
+}
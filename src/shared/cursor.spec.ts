@@ -0,0 +1,61 @@
+import {
+  decodeCursor,
+  encodeCursor,
+  HISTORY_DEFAULT_LIMIT,
+  HISTORY_MAX_LIMIT,
+  keysetWhere,
+  paginate,
+  parseLimit,
+} from './cursor';
+
+const CURSOR = { trackedAt: new Date('2026-01-15T08:30:00.123Z'), id: 42 };
+
+describe('history cursor', () => {
+  it('round-trips through an opaque URL-safe string', () => {
+    const encoded = encodeCursor(CURSOR);
+    expect(encoded).toMatch(/^[A-Za-z0-9_-]+$/);
+    expect(decodeCursor(encoded)).toEqual(CURSOR);
+  });
+
+  it('rejects cursors it did not produce', () => {
+    expect(decodeCursor('garbage')).toBeNull();
+    const noId = Buffer.from('2026-01-15T08:30:00.000Z|x').toString(
+      'base64url',
+    );
+    expect(decodeCursor(noId)).toBeNull();
+  });
+
+  it('clamps page sizes', () => {
+    expect(parseLimit(undefined)).toBe(HISTORY_DEFAULT_LIMIT);
+    expect(parseLimit('0')).toBe(HISTORY_DEFAULT_LIMIT);
+    expect(parseLimit('abc')).toBe(HISTORY_DEFAULT_LIMIT);
+    expect(parseLimit('250')).toBe(250);
+    expect(parseLimit('5000')).toBe(HISTORY_MAX_LIMIT);
+  });
+
+  it('selects rows strictly after the cursor, ties broken by id', () => {
+    expect(keysetWhere(null, 'asc')).toEqual({});
+    expect(keysetWhere(CURSOR, 'asc')).toEqual({
+      OR: [
+        { trackedAt: { gt: CURSOR.trackedAt } },
+        { trackedAt: CURSOR.trackedAt, id: { gt: 42 } },
+      ],
+    });
+    expect(keysetWhere(CURSOR, 'desc')).toEqual({
+      OR: [
+        { trackedAt: { lt: CURSOR.trackedAt } },
+        { trackedAt: CURSOR.trackedAt, id: { lt: 42 } },
+      ],
+    });
+  });
+
+  it('only returns a next cursor when the extra row was fetched', () => {
+    const rows = [1, 2, 3].map((id) => ({ ...CURSOR, id }));
+
+    const full = paginate(rows, 2);
+    expect(full.items.map((row) => row.id)).toEqual([1, 2]);
+    expect(decodeCursor(full.nextCursor!)).toEqual({ ...CURSOR, id: 2 });
+
+    expect(paginate(rows, 3)).toEqual({ items: rows, nextCursor: null });
+  });
+});
@@ -0,0 +1,75 @@
+// Keyset pagination over tracking history, ordered by (trackedAt, id)
+
+import { Prisma } from '@prisma/client'
+
+export const HISTORY_DEFAULT_LIMIT = 100
+export const HISTORY_MAX_LIMIT = 1000
+
+export type SortDirection = 'asc' | 'desc'
+
+export interface HistoryCursor {
+  trackedAt: Date
+  id: number
+}
+
+// Opaque, URL-safe cursor for the last row of a page
+export const encodeCursor = (row: HistoryCursor): string =>
+  Buffer.from(`${row.trackedAt.toISOString()}|${row.id}`).toString('base64url')
+
+export const decodeCursor = (cursor: string): HistoryCursor | null => {
+  const [timestamp, id] = Buffer.from(cursor, 'base64url').toString('utf8').split('|')
+  const trackedAt = new Date(timestamp)
+  const parsedId = Number(id)
+
+  if (isNaN(trackedAt.getTime()) || !Number.isInteger(parsedId)) return null
+  return { trackedAt, id: parsedId }
+}
+
+// Clamp a requested page size, falling back to the default for anything unusable
+export const parseLimit = (limit?: string): number => {
+  const parsed = parseInt(limit ?? '', 10)
+  if (!Number.isFinite(parsed) || parsed < 1) return HISTORY_DEFAULT_LIMIT
+  return Math.min(parsed, HISTORY_MAX_LIMIT)
+}
+
+// Prisma filter selecting rows strictly after the cursor in the given direction
+export const keysetWhere = (
+  cursor: HistoryCursor | null,
+  direction: SortDirection
+): Prisma.TrackingWhereInput => {
+  if (!cursor) return {}
+
+  if (direction === 'asc') {
+    return {
+      OR: [
+        { trackedAt: { gt: cursor.trackedAt } },
+        { trackedAt: cursor.trackedAt, id: { gt: cursor.id } }
+      ]
+    }
+  }
+
+  return {
+    OR: [
+      { trackedAt: { lt: cursor.trackedAt } },
+      { trackedAt: cursor.trackedAt, id: { lt: cursor.id } }
+    ]
+  }
+}
+
+export const keysetOrderBy = (direction: SortDirection): Prisma.TrackingOrderByWithRelationInput[] => [
+  { trackedAt: direction },
+  { id: direction }
+]
+
+/**
+ * Trim a page fetched with `limit + 1` rows and work out the next cursor.
+ * The extra row only signals that more data exists.
+ */
+export const paginate = <T extends HistoryCursor>(
+  rows: T[],
+  limit: number
+): { items: T[]; nextCursor: string | null } => {
+  const items = rows.slice(0, limit)
+  const nextCursor = rows.length > limit ? encodeCursor(items[items.length - 1]) : null
+  return { items, nextCursor }
+}
@@ -0,0 +1,47 @@
+// Device-reported fix times. `Tracking.trackedAt` holds when the fix was taken,
+// `Tracking.receivedAt` when the server stored it.
+
+import { PrismaClient } from '@prisma/client'
+import { keysetWhere } from './cursor'
+
+// Device clocks may run slightly ahead of the server
+export const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000
+
+// Parse an optional ISO 8601 fix time, falling back to `receivedAt` when absent
+export const resolveFixTime = (
+  fixTime: string | undefined,
+  receivedAt: Date
+): { fixTime?: Date; error?: string } => {
+  if (!fixTime) {
+    return { fixTime: receivedAt }
+  }
+
+  const parsed = new Date(fixTime)
+  if (isNaN(parsed.getTime())) {
+    return { error: 'fixTime must be an ISO 8601 date-time' }
+  }
+
+  if (parsed.getTime() > receivedAt.getTime() + MAX_FUTURE_SKEW_MS) {
+    return { error: 'fixTime must not be in the future' }
+  }
+
+  return { fixTime: parsed }
+}
+
+/**
+ * Whether a stored point is the device's most recent fix, i.e. nothing with a
+ * later fix time (or the same time and a higher id) has been stored apart from
+ * rejected fixes. Points that arrive late must not replace the live position.
+ */
+export const isLatestFix = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: { id: number; trackedAt: Date }
+): Promise<boolean> => {
+  const newer = await client.tracking.findFirst({
+    where: { deviceCode, quality: { not: 'REJECTED' }, ...keysetWhere(point, 'asc') },
+    select: { id: true }
+  })
+
+  return newer === null
+}
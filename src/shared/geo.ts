@@ -0,0 +1,66 @@
+// Geographic helpers shared by the Nest services and the Lambda handlers
+
+export interface GeoPoint {
+  lat: number
+  long: number
+}
+
+// Mean Earth radius in metres (IUGG)
+export const EARTH_RADIUS_METERS = 6371008.8
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180
+
+// Great-circle distance between two points in metres
+export const haversineDistance = (a: GeoPoint, b: GeoPoint): number => {
+  const dLat = toRadians(b.lat - a.lat)
+  const dLong = toRadians(b.long - a.long)
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLong / 2) ** 2
+
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+// Check whether a point lies within `radius` metres of `center`
+export const isPointInCircle = (point: GeoPoint, center: GeoPoint, radius: number): boolean => {
+  return haversineDistance(point, center) <= radius
+}
+
+// Ray casting point-in-polygon test, vertices in order (closing vertex optional)
+export const isPointInPolygon = (point: GeoPoint, vertices: GeoPoint[]): boolean => {
+  let inside = false
+
+  for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+    const a = vertices[i]
+    const b = vertices[j]
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.long < ((b.long - a.long) * (point.lat - a.lat)) / (b.lat - a.lat) + a.long
+
+    if (crosses) {
+      inside = !inside
+    }
+  }
+
+  return inside
+}
+
+// Parse a coordinate stored as text, returning null for anything unusable
+export const parseCoordinate = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined || value === '') return null
+
+  const parsed = typeof value === 'number' ? value : parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// Build a GeoPoint from stored tracking columns
+export const toGeoPoint = (record: {
+  lat: string | number | null
+  long: string | number | null
+}): GeoPoint | null => {
+  const lat = parseCoordinate(record.lat)
+  const long = parseCoordinate(record.long)
+
+  if (lat === null || long === null) return null
+  return { lat, long }
+}
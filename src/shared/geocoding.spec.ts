@@ -0,0 +1,80 @@
+import {
+  createGeocodingProvider,
+  createOfflineGeocoder,
+  geocodeCacheKey,
+} from './geocoding';
+import { Place } from './places';
+
+// 0.1 degrees of latitude is about 11.1 km
+const place = (name: string, lat: number, radiusKm: number): Place => ({
+  name,
+  region: 'Region',
+  country: 'Country',
+  countryCode: 'CC',
+  lat,
+  long: 0,
+  radiusKm,
+});
+
+describe('createOfflineGeocoder', () => {
+  const geocoder = createOfflineGeocoder({
+    places: [place('North', 1, 5), place('South', 0, 5)],
+    maxDistanceKm: 50,
+  });
+
+  it('names the place a point lies in', async () => {
+    expect(await geocoder.reverse({ lat: 0.01, long: 0 })).toEqual({
+      label: 'South, Region, Country',
+      locality: 'South',
+      region: 'Region',
+      country: 'Country',
+      countryCode: 'CC',
+      distanceKm: null,
+      provider: 'offline',
+    });
+  });
+
+  it('describes a point outside every place by its distance to the nearest', async () => {
+    const address = await geocoder.reverse({ lat: 0.1, long: 0 });
+    expect(address).toMatchObject({
+      label: '11 km from South, Region, Country',
+      locality: 'South',
+      distanceKm: 11,
+    });
+  });
+
+  it('resolves nothing beyond the maximum distance', async () => {
+    expect(await geocoder.reverse({ lat: -1, long: 0 })).toBeNull();
+  });
+
+  it('does not repeat the name of a city state', async () => {
+    const address = await createOfflineGeocoder().reverse({
+      lat: 1.3521,
+      long: 103.8198,
+    });
+    expect(address?.label).toBe('Singapore');
+  });
+});
+
+describe('createGeocodingProvider', () => {
+  it('creates the offline provider by name', () => {
+    expect(createGeocodingProvider('offline').name).toBe('offline');
+  });
+
+  it('refuses an unknown provider', () => {
+    expect(() => createGeocodingProvider('nominatim')).toThrow(
+      'Unknown geocoding provider: nominatim',
+    );
+  });
+});
+
+describe('geocodeCacheKey', () => {
+  it('rounds nearby points to the same key', () => {
+    expect(geocodeCacheKey({ lat: 12.97161, long: 77.59459 })).toBe(
+      '12.9716,77.5946',
+    );
+    expect(geocodeCacheKey({ lat: 12.97164, long: 77.59461 })).toBe(
+      '12.9716,77.5946',
+    );
+  });
+});
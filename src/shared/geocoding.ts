@@ -0,0 +1,91 @@
+// Reverse geocoding. Providers turn a coordinate into an address; results are
+// cached by rounded coordinates since tracks revisit the same spots.
+
+import { GeoPoint, haversineDistance } from './geo'
+import { Place, PLACES } from './places'
+
+export interface Address {
+  label: string // single line for display
+  locality: string | null
+  region: string | null
+  country: string | null
+  countryCode: string | null
+  distanceKm: number | null // from the named locality when outside it
+  provider: string
+}
+
+export interface GeocodingProvider {
+  name: string
+  reverse(point: GeoPoint): Promise<Address | null>
+}
+
+// 4 decimal places is about 11 m, well within what an address resolves to
+export const GEOCODE_CACHE_PRECISION = 4
+
+export const geocodeCacheKey = (point: GeoPoint, precision = GEOCODE_CACHE_PRECISION): string =>
+  `${point.lat.toFixed(precision)},${point.long.toFixed(precision)}`
+
+export interface OfflineGeocoderOptions {
+  places: Place[]
+  maxDistanceKm: number // points further from every place resolve to nothing
+}
+
+export const DEFAULT_OFFLINE_GEOCODER_OPTIONS: OfflineGeocoderOptions = {
+  places: PLACES,
+  maxDistanceKm: 100
+}
+
+/**
+ * Geocoder backed by the bundled place list: a point resolves to the nearest
+ * place, described as "N km from" it when outside the place's radius. Needs
+ * no network; addresses are only as fine as the place list, so it is meant for
+ * tests and development and has to be chosen explicitly.
+ */
+export const createOfflineGeocoder = (
+  overrides: Partial<OfflineGeocoderOptions> = {}
+): GeocodingProvider => {
+  const options = { ...DEFAULT_OFFLINE_GEOCODER_OPTIONS, ...overrides }
+
+  const reverse = (point: GeoPoint): Address | null => {
+    let nearest: { place: Place; distanceKm: number } | null = null
+
+    for (const place of options.places) {
+      const distanceKm = haversineDistance(point, place) / 1000
+      if (!nearest || distanceKm < nearest.distanceKm) nearest = { place, distanceKm }
+    }
+
+    if (!nearest || nearest.distanceKm > options.maxDistanceKm) return null
+
+    const { place } = nearest
+    const inside = nearest.distanceKm <= place.radiusKm
+    const distanceKm = inside ? null : Math.round(nearest.distanceKm)
+    // City states repeat their name as region or country
+    const name = [...new Set([place.name, place.region, place.country])].join(', ')
+
+    return {
+      label: inside ? name : `${distanceKm} km from ${name}`,
+      locality: place.name,
+      region: place.region,
+      country: place.country,
+      countryCode: place.countryCode,
+      distanceKm,
+      provider: 'offline'
+    }
+  }
+
+  return { name: 'offline', reverse: (point) => Promise.resolve(reverse(point)) }
+}
+
+/**
+ * Provider selected by name, e.g. from the GEOCODING_PROVIDER environment
+ * variable. There is no default: callers decide what to do when none is
+ * configured. Online providers are added here as they are integrated.
+ */
+export const createGeocodingProvider = (name: string): GeocodingProvider => {
+  switch (name) {
+    case 'offline':
+      return createOfflineGeocoder()
+    default:
+      throw new Error(`Unknown geocoding provider: ${name}`)
+  }
+}
@@ -0,0 +1,81 @@
+import { Geofence, GeofenceEvent, PrismaClient } from '@prisma/client'
+import { GeoPoint, isPointInCircle, isPointInPolygon } from './geo'
+
+export interface GeofencePoint extends GeoPoint {
+  trackingId?: number
+  occurredAt: Date
+}
+
+export type GeofenceEventWithName = GeofenceEvent & {
+  geofenceName: string
+}
+
+type GeofenceShape = Pick<Geofence, 'type' | 'centerLat' | 'centerLong' | 'radius' | 'polygon'>
+
+// Check whether a point lies inside a stored circle or polygon zone
+export const isInsideGeofence = (geofence: GeofenceShape, point: GeoPoint): boolean => {
+  if (geofence.type === 'CIRCLE') {
+    if (geofence.centerLat === null || geofence.centerLong === null || geofence.radius === null) {
+      return false
+    }
+    return isPointInCircle(point, { lat: geofence.centerLat, long: geofence.centerLong }, geofence.radius)
+  }
+
+  const vertices = Array.isArray(geofence.polygon) ? (geofence.polygon as unknown as GeoPoint[]) : []
+  return vertices.length >= 3 && isPointInPolygon(point, vertices)
+}
+
+/**
+ * Compare a new point against every active geofence of a device, persist
+ * state changes and return the ENTER/EXIT events that were recorded.
+ *
+ * The first point after a geofence is created only establishes the state,
+ * except that starting inside the zone counts as an ENTER.
+ */
+export const evaluateGeofences = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: GeofencePoint
+): Promise<GeofenceEventWithName[]> => {
+  const geofences = await client.geofence.findMany({
+    where: {
+      isActive: true,
+      device: { code: deviceCode }
+    }
+  })
+
+  const events: GeofenceEventWithName[] = []
+
+  for (const geofence of geofences) {
+    // Late points (e.g. uploaded from an offline buffer) cannot undo a newer transition
+    if (geofence.stateChangedAt && point.occurredAt < geofence.stateChangedAt) continue
+
+    const inside = isInsideGeofence(geofence, point)
+    if (geofence.isInside === inside) continue
+
+    // Guard against a concurrent ingest having already flipped the state
+    const updated = await client.geofence.updateMany({
+      where: { id: geofence.id, isInside: geofence.isInside },
+      data: { isInside: inside, stateChangedAt: point.occurredAt }
+    })
+    if (updated.count === 0) continue
+
+    if (geofence.isInside === null && !inside) continue
+
+    const event = await client.geofenceEvent.create({
+      data: {
+        geofenceId: geofence.id,
+        deviceCode,
+        transition: inside ? 'ENTER' : 'EXIT',
+        lat: point.lat,
+        long: point.long,
+        trackingId: point.trackingId,
+        occurredAt: point.occurredAt
+      }
+    })
+
+    events.push({ ...event, geofenceName: geofence.name })
+  }
+
+  return events
+}
@@ -0,0 +1,103 @@
+import {
+  classifyFix,
+  DEFAULT_GPS_QUALITY_OPTIONS,
+  gpsQualityOptionsFromEnv,
+  parseQualityFilter,
+  QualityPoint,
+  ReferenceFix,
+} from './gps-quality';
+
+const START = Date.UTC(2026, 0, 1, 8, 0, 0);
+
+const fix = (
+  seconds: number,
+  lat: number,
+  long: number,
+  noOfSatellites: number | null = 9,
+): QualityPoint => ({
+  lat,
+  long,
+  noOfSatellites,
+  trackedAt: new Date(START + seconds * 1000),
+});
+
+const PREVIOUS: ReferenceFix = fix(0, 12.97, 77.6);
+
+describe('classifyFix', () => {
+  it('accepts a plausible fix', () => {
+    // About 110 m in 10 s, 40 km/h
+    expect(classifyFix(fix(10, 12.971, 77.6), PREVIOUS)).toEqual({
+      quality: 'VALID',
+      reason: null,
+    });
+  });
+
+  it('rejects the 0,0 trackers report without a fix', () => {
+    expect(classifyFix(fix(10, 0, 0), PREVIOUS).reason).toBe('no fix (0,0)');
+  });
+
+  it('grades by satellite count', () => {
+    expect(classifyFix(fix(10, 12.97, 77.6, 2), null)).toEqual({
+      quality: 'REJECTED',
+      reason: 'only 2 satellites',
+    });
+    expect(classifyFix(fix(10, 12.97, 77.6, 3), null)).toEqual({
+      quality: 'SUSPECT',
+      reason: 'only 3 satellites',
+    });
+    expect(classifyFix(fix(10, 12.97, 77.6, null), null).quality).toBe('VALID');
+  });
+
+  it('grades by the speed implied by the jump from the previous fix', () => {
+    // About 1.1 km in 10 s, roughly 400 km/h
+    expect(classifyFix(fix(10, 12.98, 77.6), PREVIOUS)).toEqual({
+      quality: 'REJECTED',
+      reason: 'implied speed 400 km/h',
+    });
+    // About 1.1 km in 20 s, roughly 200 km/h
+    expect(classifyFix(fix(20, 12.98, 77.6), PREVIOUS)).toEqual({
+      quality: 'SUSPECT',
+      reason: 'implied speed 200 km/h',
+    });
+  });
+
+  it('ignores a previous fix older than the reference age', () => {
+    expect(classifyFix(fix(601, 13.5, 77.6), PREVIOUS).quality).toBe('VALID');
+  });
+
+  it('rejects repeats and jumps without time elapsed', () => {
+    expect(classifyFix(fix(0, 12.97, 77.6), PREVIOUS).reason).toBe(
+      'duplicate fix',
+    );
+    expect(classifyFix(fix(0, 12.971, 77.6), PREVIOUS).reason).toBe(
+      'moved 111 m with no time elapsed',
+    );
+  });
+});
+
+describe('gpsQualityOptionsFromEnv', () => {
+  it('overrides defaults with valid variables only', () => {
+    expect(
+      gpsQualityOptionsFromEnv({
+        GPS_MAX_SPEED_KMH: '250',
+        GPS_MIN_SATELLITES: 'lots',
+        GPS_DUPLICATE_METERS: '-1',
+      }),
+    ).toEqual({ ...DEFAULT_GPS_QUALITY_OPTIONS, maxSpeedKmh: 250 });
+  });
+});
+
+describe('parseQualityFilter', () => {
+  it('maps filter names to conditions', () => {
+    expect(parseQualityFilter(undefined)).toEqual({ where: {} });
+    expect(parseQualityFilter('valid')).toEqual({
+      where: { quality: 'VALID' },
+    });
+    expect(parseQualityFilter('usable')).toEqual({
+      where: { quality: { not: 'REJECTED' } },
+    });
+    expect(parseQualityFilter('best').error).toBe(
+      'quality must be one of all, usable, valid',
+    );
+  });
+});
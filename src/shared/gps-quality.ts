@@ -0,0 +1,160 @@
+// GPS quality filtering on ingest. Each fix is classified from its satellite
+// count, the speed implied by the jump from the previous fix and whether it
+// repeats that fix. Rejected fixes are stored but kept out of live state.
+
+import { FixQuality, Prisma, PrismaClient } from '@prisma/client'
+import { GeoPoint, haversineDistance } from './geo'
+
+export interface GpsQualityOptions {
+  minSatellites: number // fewer satellites than this is rejected
+  suspectSatellites: number // fewer satellites than this is suspect
+  maxSpeedKmh: number // implied speed above this is rejected
+  suspectSpeedKmh: number // implied speed above this is suspect
+  duplicateMeters: number // same fix time and within this distance is a duplicate
+  referenceMaxAgeSeconds: number // older previous fixes are not compared against
+}
+
+export const DEFAULT_GPS_QUALITY_OPTIONS: GpsQualityOptions = {
+  minSatellites: 3,
+  suspectSatellites: 4,
+  maxSpeedKmh: 300,
+  suspectSpeedKmh: 180,
+  duplicateMeters: 5,
+  referenceMaxAgeSeconds: 600
+}
+
+const ENV_OPTIONS: Record<keyof GpsQualityOptions, string> = {
+  minSatellites: 'GPS_MIN_SATELLITES',
+  suspectSatellites: 'GPS_SUSPECT_SATELLITES',
+  maxSpeedKmh: 'GPS_MAX_SPEED_KMH',
+  suspectSpeedKmh: 'GPS_SUSPECT_SPEED_KMH',
+  duplicateMeters: 'GPS_DUPLICATE_METERS',
+  referenceMaxAgeSeconds: 'GPS_REFERENCE_MAX_AGE_SECONDS'
+}
+
+// Defaults overridden by any GPS_* environment variables that are set
+export const gpsQualityOptionsFromEnv = (env: NodeJS.ProcessEnv = process.env): GpsQualityOptions => {
+  const options = { ...DEFAULT_GPS_QUALITY_OPTIONS }
+
+  for (const [key, name] of Object.entries(ENV_OPTIONS) as [keyof GpsQualityOptions, string][]) {
+    const value = parseFloat(env[name] ?? '')
+    if (Number.isFinite(value) && value >= 0) options[key] = value
+  }
+
+  return options
+}
+
+export interface QualityPoint extends GeoPoint {
+  noOfSatellites: number | null
+  trackedAt: Date
+}
+
+// The fix a new point is compared against
+export interface ReferenceFix extends GeoPoint {
+  trackedAt: Date
+}
+
+export interface FixClassification {
+  quality: FixQuality
+  reason: string | null
+}
+
+/**
+ * Classify a fix against the previous usable fix of the same device. Points
+ * without a satellite count or a recent previous fix are judged on what is
+ * known, so a bad reference cannot get every later fix rejected for long.
+ */
+export const classifyFix = (
+  point: QualityPoint,
+  previous: ReferenceFix | null,
+  options: GpsQualityOptions = DEFAULT_GPS_QUALITY_OPTIONS
+): FixClassification => {
+  // Trackers without a fix commonly report 0,0
+  if (point.lat === 0 && point.long === 0) {
+    return { quality: 'REJECTED', reason: 'no fix (0,0)' }
+  }
+
+  const satellites = point.noOfSatellites
+  if (satellites !== null && satellites < options.minSatellites) {
+    return { quality: 'REJECTED', reason: `only ${satellites} satellites` }
+  }
+
+  const seconds = previous ? (point.trackedAt.getTime() - previous.trackedAt.getTime()) / 1000 : null
+
+  let impliedSpeed: number | null = null
+  if (previous && seconds !== null && seconds <= options.referenceMaxAgeSeconds) {
+    const distance = haversineDistance(previous, point)
+
+    if (seconds <= 0) {
+      if (distance <= options.duplicateMeters) {
+        return { quality: 'REJECTED', reason: 'duplicate fix' }
+      }
+      return { quality: 'REJECTED', reason: `moved ${Math.round(distance)} m with no time elapsed` }
+    }
+
+    impliedSpeed = (distance / seconds) * 3.6
+    if (impliedSpeed > options.maxSpeedKmh) {
+      return { quality: 'REJECTED', reason: `implied speed ${Math.round(impliedSpeed)} km/h` }
+    }
+  }
+
+  if (satellites !== null && satellites < options.suspectSatellites) {
+    return { quality: 'SUSPECT', reason: `only ${satellites} satellites` }
+  }
+
+  if (impliedSpeed !== null && impliedSpeed > options.suspectSpeedKmh) {
+    return { quality: 'SUSPECT', reason: `implied speed ${Math.round(impliedSpeed)} km/h` }
+  }
+
+  return { quality: 'VALID', reason: null }
+}
+
+// Latest fix of the device at or before `trackedAt` that was not rejected
+export const findReferenceFix = async (
+  client: PrismaClient,
+  deviceCode: string,
+  trackedAt: Date
+): Promise<ReferenceFix | null> => {
+  const previous = await client.tracking.findFirst({
+    where: {
+      deviceCode,
+      trackedAt: { lte: trackedAt },
+      quality: { not: 'REJECTED' },
+      lat: { not: null },
+      long: { not: null }
+    },
+    orderBy: [{ trackedAt: 'desc' }, { id: 'desc' }],
+    select: { lat: true, long: true, trackedAt: true }
+  })
+
+  if (!previous || previous.lat === null || previous.long === null) return null
+  return { lat: previous.lat, long: previous.long, trackedAt: previous.trackedAt }
+}
+
+// Classify a point that is about to be stored
+export const classifyIncomingFix = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: QualityPoint,
+  options: GpsQualityOptions = DEFAULT_GPS_QUALITY_OPTIONS
+): Promise<FixClassification> =>
+  classifyFix(point, await findReferenceFix(client, deviceCode, point.trackedAt), options)
+
+/**
+ * Parse the `quality` history filter: `valid` returns only valid fixes,
+ * `usable` also includes suspect ones and `all` (the default) everything.
+ */
+export const parseQualityFilter = (
+  value: string | undefined
+): { where?: Prisma.TrackingWhereInput; error?: string } => {
+  switch (value || 'all') {
+    case 'all':
+      return { where: {} }
+    case 'valid':
+      return { where: { quality: 'VALID' } }
+    case 'usable':
+      return { where: { quality: { not: 'REJECTED' } } }
+    default:
+      return { error: 'quality must be one of all, usable, valid' }
+  }
+}
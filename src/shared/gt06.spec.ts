@@ -0,0 +1,104 @@
+import { decodeGt06Frame, gt06Response, splitGt06Frames } from './gt06';
+
+const hex = (value: string) => Buffer.from(value.replace(/\s/g, ''), 'hex');
+
+// Login example from the GT06 protocol manual
+const LOGIN = hex('78780D01 0123456789012345 0001 8CDD 0D0A');
+// Location (0x12) north/east, cell tower block included
+const LOCATION = hex(
+  '78781F12 0B081D112E10 CC 027AC7EB 0C465849 00 148F 01CC00287D001FB8 0003 7377 0D0A',
+);
+// Location south/west, heading 180
+const LOCATION_SOUTH_WEST = hex(
+  '78781F12 1A0A130A0000 C9 03A23C00 10391664 32 18B4 01CC00287D001FB8 0007 7E68 0D0A',
+);
+const HEARTBEAT = hex('78780A13 46 04 04 0002 000A 3CEA 0D0A');
+// SOS alarm (0x16) with GPS, cell tower and status blocks
+const ALARM = hex(
+  '78782516 0B0B0F0E241D CF 027AC887 0C4657E6 00 1402 09 01CC00287D001F72 46 04 04 01 02 000C E4A2 0D0A',
+);
+
+describe('GT06 decoder', () => {
+  it('decodes the IMEI of a login packet and acknowledges it', () => {
+    expect(decodeGt06Frame(LOGIN).message).toEqual({
+      type: 'login',
+      protocol: 0x01,
+      serial: 1,
+      imei: '123456789012345',
+    });
+    expect(gt06Response(0x01, 1)).toEqual(hex('78780501 0001 D9DC 0D0A'));
+  });
+
+  it('decodes a location packet', () => {
+    const { message } = decodeGt06Frame(LOCATION);
+
+    expect(message).toMatchObject({ type: 'location', serial: 3 });
+    expect(message?.type === 'location' && message.fix).toEqual({
+      fixTime: new Date('2011-08-29T17:46:16Z'),
+      lat: 23.1116683,
+      long: 114.409285,
+      speed: 0,
+      course: 143,
+      satellites: 12,
+      valid: true,
+    });
+    expect(gt06Response(0x12, 3)).toBeNull();
+  });
+
+  it('signs coordinates south of the equator and west of Greenwich', () => {
+    const { message } = decodeGt06Frame(LOCATION_SOUTH_WEST);
+
+    expect(message?.type === 'location' && message.fix).toMatchObject({
+      fixTime: new Date('2026-10-19T10:00:00Z'),
+      lat: -33.8688,
+      long: -151.2093,
+      speed: 50,
+      course: 180,
+      satellites: 9,
+    });
+  });
+
+  it('decodes heartbeat status and acknowledges it', () => {
+    expect(decodeGt06Frame(HEARTBEAT).message).toEqual({
+      type: 'heartbeat',
+      protocol: 0x13,
+      serial: 10,
+      status: { battery: 67, charging: true, acc: true, gsmSignal: 4 },
+    });
+    expect(gt06Response(0x13, 10)).toEqual(hex('78780513 000A 5722 0D0A'));
+  });
+
+  it('decodes an alarm packet with its position', () => {
+    const { message } = decodeGt06Frame(ALARM);
+
+    expect(message).toMatchObject({
+      type: 'alarm',
+      serial: 12,
+      alarm: 'sos',
+      status: { battery: 67, gsmSignal: 4 },
+      fix: { lat: 23.111755, long: 114.40923, satellites: 15, valid: true },
+    });
+    expect(gt06Response(0x16, 12)).not.toBeNull();
+  });
+
+  it('rejects frames with a bad CRC', () => {
+    const corrupted = Buffer.from(LOCATION);
+    corrupted[10] ^= 0xff;
+
+    expect(decodeGt06Frame(corrupted)).toEqual({ error: 'CRC mismatch' });
+  });
+
+  it('splits a stream into frames and keeps the incomplete tail', () => {
+    const stream = Buffer.concat([
+      hex('0000'),
+      LOGIN,
+      HEARTBEAT,
+      LOCATION.subarray(0, 12),
+    ]);
+
+    const { frames, rest } = splitGt06Frames(stream);
+
+    expect(frames).toEqual([LOGIN, HEARTBEAT]);
+    expect(rest).toEqual(LOCATION.subarray(0, 12));
+  });
+});
@@ -0,0 +1,202 @@
+// GT06 binary protocol (Concox and most commodity trackers). Frames are
+// 0x7878 <len:1> or 0x7979 <len:2>, then protocol number, content, serial
+// number and a CRC-ITU over everything from the length, ending in 0x0D0A.
+
+export const GT06_LOGIN = 0x01
+export const GT06_LOCATION = 0x12
+export const GT06_HEARTBEAT = 0x13
+export const GT06_ALARM = 0x16
+export const GT06_LOCATION_LBS = 0x22
+
+// Packets the terminal expects an echo of; it re-sends them otherwise
+const ACKNOWLEDGED = [GT06_LOGIN, GT06_HEARTBEAT, GT06_ALARM]
+
+// Alarm byte of the alarm packet
+const ALARMS: Record<number, string> = {
+  0x01: 'sos',
+  0x02: 'power-cut',
+  0x03: 'vibration',
+  0x04: 'geofence-enter',
+  0x05: 'geofence-exit'
+}
+
+export interface Gt06Fix {
+  fixTime: Date
+  lat: number
+  long: number
+  speed: number // km/h
+  course: number // degrees from true north
+  satellites: number
+  valid: boolean // receiver had a position fix
+}
+
+export interface Gt06Status {
+  battery: number | null // percent, from the 0-6 voltage level
+  charging: boolean
+  acc: boolean // ignition
+  gsmSignal: number // 0-4
+}
+
+export type Gt06Message =
+  | { type: 'login'; protocol: number; serial: number; imei: string }
+  | { type: 'location'; protocol: number; serial: number; fix: Gt06Fix }
+  | { type: 'heartbeat'; protocol: number; serial: number; status: Gt06Status }
+  | { type: 'alarm'; protocol: number; serial: number; fix: Gt06Fix; status: Gt06Status; alarm: string | null }
+  | { type: 'unsupported'; protocol: number; serial: number }
+
+/**
+ * CRC-ITU (CRC-16/X-25) as used by GT06
+ */
+export const gt06Crc = (data: Uint8Array): number => {
+  let crc = 0xffff
+  for (const byte of data) {
+    crc ^= byte
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0x8408 : crc >>> 1
+  }
+  return ~crc & 0xffff
+}
+
+const isStart = (buffer: Buffer, offset: number) =>
+  (buffer[offset] === 0x78 && buffer[offset + 1] === 0x78) || (buffer[offset] === 0x79 && buffer[offset + 1] === 0x79)
+
+/**
+ * Cut complete frames off the front of a TCP stream buffer. Bytes before a
+ * start marker are dropped; an incomplete frame is returned as `rest`.
+ */
+export const splitGt06Frames = (buffer: Buffer): { frames: Buffer[]; rest: Buffer } => {
+  const frames: Buffer[] = []
+  let offset = 0
+
+  while (offset < buffer.length - 1) {
+    if (!isStart(buffer, offset)) {
+      offset++
+      continue
+    }
+
+    const long = buffer[offset] === 0x79
+    const header = long ? 4 : 3
+    if (buffer.length < offset + header) break
+
+    const length = long ? buffer.readUInt16BE(offset + 2) : buffer[offset + 2]
+    const total = header + length + 2
+    if (buffer.length < offset + total) break
+
+    frames.push(buffer.subarray(offset, offset + total))
+    offset += total
+  }
+
+  return { frames, rest: buffer.subarray(Math.min(offset, buffer.length)) }
+}
+
+// Date, satellites, position, speed and course: the 18-byte GPS block
+const decodeFix = (content: Buffer, offset: number): Gt06Fix => {
+  const fixTime = new Date(
+    Date.UTC(
+      2000 + content[offset],
+      content[offset + 1] - 1,
+      content[offset + 2],
+      content[offset + 3],
+      content[offset + 4],
+      content[offset + 5]
+    )
+  )
+  const satellites = content[offset + 6] & 0x0f
+  let lat = content.readUInt32BE(offset + 7) / 1800000
+  let long = content.readUInt32BE(offset + 11) / 1800000
+  const speed = content[offset + 15]
+  const flags = content.readUInt16BE(offset + 16)
+
+  if (!(flags & 0x0400)) lat = -lat
+  if (flags & 0x0800) long = -long
+
+  return {
+    fixTime,
+    lat: Math.round(lat * 1e7) / 1e7,
+    long: Math.round(long * 1e7) / 1e7,
+    speed,
+    course: flags & 0x03ff,
+    satellites,
+    valid: (flags & 0x1000) !== 0
+  }
+}
+
+// Terminal information, voltage level and GSM signal
+const decodeStatus = (content: Buffer, offset: number): Gt06Status => {
+  const info = content[offset]
+  const voltage = content[offset + 1]
+
+  return {
+    battery: voltage <= 6 ? Math.round((voltage / 6) * 100) : null,
+    charging: (info & 0x04) !== 0,
+    acc: (info & 0x02) !== 0,
+    gsmSignal: content[offset + 2]
+  }
+}
+
+/**
+ * Decode one frame as cut by splitGt06Frames. Frames failing the CRC or too
+ * short for their protocol are reported as errors.
+ */
+export const decodeGt06Frame = (frame: Buffer): { message?: Gt06Message; error?: string } => {
+  const long = frame[0] === 0x79
+  const dataStart = long ? 4 : 3
+  const length = long ? frame.readUInt16BE(2) : frame[2]
+  if (length < 5 || frame.length !== dataStart + length + 2) return { error: 'Malformed frame' }
+
+  const crcAt = dataStart + length - 2
+  if (gt06Crc(frame.subarray(2, crcAt)) !== frame.readUInt16BE(crcAt)) {
+    return { error: 'CRC mismatch' }
+  }
+
+  const protocol = frame[dataStart]
+  const serial = frame.readUInt16BE(crcAt - 2)
+  const content = frame.subarray(dataStart + 1, crcAt - 2)
+
+  switch (protocol) {
+    case GT06_LOGIN: {
+      if (content.length < 8) return { error: 'Login packet too short' }
+      // IMEI as BCD, padded to 16 digits with a leading zero
+      const imei = content.subarray(0, 8).toString('hex').replace(/^0/, '')
+      return { message: { type: 'login', protocol, serial, imei } }
+    }
+    case GT06_LOCATION:
+    case GT06_LOCATION_LBS:
+      if (content.length < 18) return { error: 'Location packet too short' }
+      return { message: { type: 'location', protocol, serial, fix: decodeFix(content, 0) } }
+    case GT06_HEARTBEAT:
+      if (content.length < 3) return { error: 'Heartbeat packet too short' }
+      return { message: { type: 'heartbeat', protocol, serial, status: decodeStatus(content, 0) } }
+    case GT06_ALARM: {
+      // The cell tower block carries its own length, which includes that byte
+      const statusAt = 18 + Math.max(content[18] ?? 0, 1)
+      if (content.length < statusAt + 4) return { error: 'Alarm packet too short' }
+
+      const code = content[statusAt + 3]
+      return {
+        message: {
+          type: 'alarm',
+          protocol,
+          serial,
+          fix: decodeFix(content, 0),
+          status: decodeStatus(content, statusAt),
+          alarm: code === 0 ? null : (ALARMS[code] ?? `alarm-0x${code.toString(16).padStart(2, '0')}`)
+        }
+      }
+    }
+    default:
+      return { message: { type: 'unsupported', protocol, serial } }
+  }
+}
+
+/**
+ * Reply a packet needs, or null. The terminal matches replies on protocol
+ * number and serial.
+ */
+export const gt06Response = (protocol: number, serial: number): Buffer | null => {
+  if (!ACKNOWLEDGED.includes(protocol)) return null
+
+  const response = Buffer.from([0x78, 0x78, 0x05, protocol, serial >> 8, serial & 0xff, 0, 0, 0x0d, 0x0a])
+  response.writeUInt16BE(gt06Crc(response.subarray(2, 6)), 6)
+
+  return response
+}
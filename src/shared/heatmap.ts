@@ -0,0 +1,59 @@
+// Location heatmaps: points binned into a grid of roughly square cells and
+// weighted by how many fixes fell in a cell or how long was spent there.
+
+import { GeoPoint } from './geo'
+
+export type HeatmapWeight = 'count' | 'dwell'
+
+export const HEATMAP_WEIGHTS: HeatmapWeight[] = ['count', 'dwell']
+
+// Cell edge in metres
+export const DEFAULT_HEATMAP_CELL_SIZE = 500
+
+// Gaps between fixes longer than this are not counted as time spent
+export const HEATMAP_MAX_DWELL_SECONDS = 10 * 60
+
+const METERS_PER_DEGREE_LAT = 111320
+
+export interface HeatmapCell {
+  lat: number // cell centre
+  long: number
+  points: number
+  dwellSeconds: number
+}
+
+export interface Heatmap {
+  add(point: GeoPoint, dwellSeconds: number): void
+  cells(): HeatmapCell[]
+}
+
+/**
+ * Grid accumulator. Rows are `cellSize` metres of latitude; each row's column
+ * width in degrees is widened by its latitude so cells stay close to square.
+ */
+export const createHeatmap = (cellSize = DEFAULT_HEATMAP_CELL_SIZE): Heatmap => {
+  const latStep = cellSize / METERS_PER_DEGREE_LAT
+  const cells = new Map<string, HeatmapCell>()
+
+  return {
+    add: (point, dwellSeconds) => {
+      const row = Math.floor(point.lat / latStep)
+      const lat = (row + 0.5) * latStep
+      const longStep = cellSize / (METERS_PER_DEGREE_LAT * Math.max(Math.cos((lat * Math.PI) / 180), 0.01))
+      const col = Math.floor(point.long / longStep)
+
+      const key = `${row}:${col}`
+      const cell = cells.get(key) ?? { lat, long: (col + 0.5) * longStep, points: 0, dwellSeconds: 0 }
+      cell.points += 1
+      cell.dwellSeconds += dwellSeconds
+      cells.set(key, cell)
+    },
+    cells: () => [...cells.values()]
+  }
+}
+
+// Time attributed to a fix: until the next fix, capped for gaps in reporting
+export const dwellSeconds = (trackedAt: Date, nextTrackedAt: Date | null): number =>
+  nextTrackedAt
+    ? Math.min(Math.max((nextTrackedAt.getTime() - trackedAt.getTime()) / 1000, 0), HEATMAP_MAX_DWELL_SECONDS)
+    : 0
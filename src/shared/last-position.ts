@@ -0,0 +1,55 @@
+// Latest known position per device, kept up to date on every ingest so fleet
+// views do not have to scan the tracking history
+
+import { Prisma, PrismaClient } from '@prisma/client'
+
+export interface LastPositionPoint {
+  id: number
+  deviceCode: string
+  lat: number | null
+  long: number | null
+  speed: number | null
+  level: number | null
+  trackedAt: Date
+  receivedAt: Date
+}
+
+/**
+ * Record a stored point as the device's last position unless a newer fix is
+ * already recorded. Returns whether the last position changed.
+ */
+export const updateLastPosition = async (client: PrismaClient, point: LastPositionPoint): Promise<boolean> => {
+  if (point.lat === null || point.long === null) return false
+
+  const data = {
+    trackingId: point.id,
+    lat: point.lat,
+    long: point.long,
+    speed: point.speed,
+    level: point.level,
+    trackedAt: point.trackedAt,
+    receivedAt: point.receivedAt
+  }
+
+  // Conditional update so late or concurrent points never move it backwards
+  const updated = await client.deviceLastPosition.updateMany({
+    where: {
+      deviceCode: point.deviceCode,
+      OR: [
+        { trackedAt: { lt: point.trackedAt } },
+        { trackedAt: point.trackedAt, trackingId: { lt: point.id } }
+      ]
+    },
+    data
+  })
+  if (updated.count > 0) return true
+
+  try {
+    await client.deviceLastPosition.create({ data: { deviceCode: point.deviceCode, ...data } })
+    return true
+  } catch (error) {
+    // A row already exists and holds a newer fix
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') return false
+    throw error
+  }
+}
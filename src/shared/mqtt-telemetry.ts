@@ -0,0 +1,33 @@
+// MQTT ingestion: devices publish fixes to devices/{code}/telemetry, one JSON
+// object per fix or an array of buffered fixes, with the same fields as the
+// HTTP tracking endpoint.
+
+export const MQTT_TELEMETRY_TOPIC = /^devices\/([^/]+)\/telemetry$/
+
+export const telemetryTopic = (deviceCode: string): string => `devices/${deviceCode}/telemetry`
+
+// Device code a telemetry topic is for, or null for any other topic
+export const deviceCodeFromTopic = (topic: string): string | null => topic.match(MQTT_TELEMETRY_TOPIC)?.[1] ?? null
+
+/**
+ * Decode a telemetry payload. An object is a single fix; an array is a batch
+ * of buffered fixes, each of which must carry its own fixTime.
+ */
+export const parseTelemetryPayload = (
+  payload: Buffer | string
+): { point?: Record<string, unknown>; points?: Record<string, unknown>[]; error?: string } => {
+  let body: unknown
+  try {
+    body = JSON.parse(payload.toString())
+  } catch {
+    return { error: 'Payload is not valid JSON' }
+  }
+
+  if (Array.isArray(body)) {
+    return body.length > 0 ? { points: body as Record<string, unknown>[] } : { error: 'Payload has no points' }
+  }
+
+  return typeof body === 'object' && body !== null
+    ? { point: body as Record<string, unknown> }
+    : { error: 'Payload must be a JSON object or array' }
+}
@@ -0,0 +1,112 @@
+import { nmeaChecksum, nmeaToFixes, parseNmeaSentence } from './nmea';
+
+const sentence = (body: string) =>
+  `$${body}*${nmeaChecksum(body).toString(16).toUpperCase().padStart(2, '0')}`;
+
+const rmc = (time: string, date: string, lat = '4807.038') =>
+  sentence(`GPRMC,${time},A,${lat},N,01131.000,E,022.4,084.4,${date},003.1,W`);
+const gga = (time: string, lat = '4807.038') =>
+  sentence(`GPGGA,${time},${lat},N,01131.000,E,1,08,0.9,545.4,M,46.9,M,,`);
+
+const RECEIVED_AT = new Date('2026-01-01T12:00:00Z');
+
+describe('parseNmeaSentence', () => {
+  it('parses an RMC sentence', () => {
+    expect(parseNmeaSentence(rmc('123519', '230394')).sentence).toEqual({
+      type: 'RMC',
+      timeOfDay: (12 * 3600 + 35 * 60 + 19) * 1000,
+      valid: true,
+      lat: expect.closeTo(48.1173, 7) as number,
+      long: expect.closeTo(11.5166667, 7) as number,
+      speed: 41.48,
+      course: 84.4,
+      date: new Date('1994-03-23T00:00:00Z'),
+    });
+  });
+
+  it('rejects a checksum mismatch', () => {
+    const line = rmc('123519', '230394').replace(/\*..$/, '*00');
+    expect(parseNmeaSentence(line)).toEqual({ error: 'Checksum mismatch' });
+  });
+
+  it('skips sentence types other than RMC and GGA', () => {
+    const line = sentence('GPGSA,A,3,04,05,,09,12,,,24,,,,,2.5,1.3,2.1');
+    expect(parseNmeaSentence(line).skipped).toBe(
+      'Unsupported sentence type GPGSA',
+    );
+  });
+});
+
+describe('nmeaToFixes', () => {
+  it('merges RMC and GGA of the same epoch into one point', () => {
+    const { fixes, results } = nmeaToFixes(
+      [gga('101500'), rmc('101500', '311225')],
+      RECEIVED_AT,
+    );
+
+    expect(fixes).toEqual([
+      {
+        lat: 48.1173,
+        long: 11.5166667,
+        speed: 41.48,
+        course: 84.4,
+        altitude: 545.4,
+        noOfSatellites: 8,
+        fixTime: '2025-12-31T10:15:00.000Z',
+      },
+    ]);
+    expect(results.map((r) => r.fix)).toEqual([0, 0]);
+  });
+
+  it('keeps epochs with the same time of day on different dates apart', () => {
+    const { fixes } = nmeaToFixes(
+      [rmc('120000', '301225'), rmc('120000', '311225', '4808.000')],
+      RECEIVED_AT,
+    );
+
+    expect(fixes.map((f) => f.fixTime)).toEqual([
+      '2025-12-30T12:00:00.000Z',
+      '2025-12-31T12:00:00.000Z',
+    ]);
+  });
+
+  it('rolls undated GGA over to the next day across midnight', () => {
+    const { fixes } = nmeaToFixes(
+      [
+        gga('235959'),
+        rmc('235959', '311225'),
+        gga('000001'),
+        rmc('000001', '010126'),
+        gga('000002'),
+      ],
+      RECEIVED_AT,
+    );
+
+    expect(fixes.map((f) => [f.fixTime, f.noOfSatellites])).toEqual([
+      ['2025-12-31T23:59:59.000Z', 8],
+      ['2026-01-01T00:00:01.000Z', 8],
+      ['2026-01-01T00:00:02.000Z', 8],
+    ]);
+  });
+
+  it('places a batch without dates on the day received', () => {
+    const { fixes } = nmeaToFixes(
+      [gga('230000'), gga('000000'), gga('113000')],
+      RECEIVED_AT,
+    );
+
+    expect(fixes.map((f) => f.fixTime)).toEqual([
+      '2025-12-31T23:00:00.000Z',
+      '2026-01-01T00:00:00.000Z',
+      '2026-01-01T11:30:00.000Z',
+    ]);
+  });
+
+  it('reports epochs without a fix as skipped', () => {
+    const noFix = sentence('GPRMC,081836,V,,,,,,,130998,,');
+    const { fixes, results } = nmeaToFixes([noFix, 'garbage'], RECEIVED_AT);
+
+    expect(fixes).toEqual([]);
+    expect(results.map((r) => r.status)).toEqual(['skipped', 'invalid']);
+  });
+});
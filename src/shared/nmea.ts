@@ -0,0 +1,264 @@
+// NMEA 0183 parsing for trackers that report raw $GPRMC / $GPGGA sentences.
+// RMC and GGA sentences for the same fix time are merged into one point:
+// RMC carries date, speed and course, GGA altitude and satellites.
+
+const KNOTS_TO_KMH = 1.852
+
+// Fixes stamped up to this far after the time received are still accepted
+const MAX_FUTURE_SKEW_MS = 5 * 60 * 1000
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+interface NmeaBase {
+  timeOfDay: number // milliseconds since UTC midnight
+  valid: boolean // receiver reported a usable fix
+  lat: number | null
+  long: number | null
+}
+
+export interface NmeaRmc extends NmeaBase {
+  type: 'RMC'
+  date: Date | null // UTC midnight of the fix date
+  speed: number | null // km/h
+  course: number | null // degrees from true north
+}
+
+export interface NmeaGga extends NmeaBase {
+  type: 'GGA'
+  noOfSatellites: number | null
+  altitude: number | null // metres above mean sea level
+}
+
+export type NmeaSentence = NmeaRmc | NmeaGga
+
+// Point in the shape TrackDeviceDto accepts
+export interface NmeaFix {
+  lat: number
+  long: number
+  speed?: number
+  course?: number
+  altitude?: number
+  noOfSatellites?: number
+  fixTime: string // ISO 8601
+}
+
+export interface NmeaSentenceResult {
+  line: number
+  status: 'parsed' | 'skipped' | 'invalid'
+  type?: NmeaSentence['type']
+  fix?: number // index of the point the sentence contributed to
+  error?: string
+}
+
+const SENTENCE = /^\$([A-Z]{2})([A-Z]{3}),(.*)\*([0-9A-Fa-f]{2})$/
+
+// XOR of every character between '$' and '*'
+export const nmeaChecksum = (body: string): number => {
+  let checksum = 0
+  for (let i = 0; i < body.length; i++) checksum ^= body.charCodeAt(i)
+  return checksum
+}
+
+const parseNumber = (value: string | undefined): number | null => {
+  if (!value) return null
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+// hhmmss(.sss) to milliseconds since midnight
+const parseTime = (value: string | undefined): number | null => {
+  const match = value?.match(/^(\d{2})(\d{2})(\d{2}(?:\.\d+)?)$/)
+  if (!match) return null
+
+  const [hours, minutes, seconds] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  if (hours > 23 || minutes > 59 || seconds >= 61) return null
+
+  return Math.round(((hours * 60 + minutes) * 60 + seconds) * 1000)
+}
+
+// ddmmyy to UTC midnight; two-digit years before 80 are 20xx
+const parseDate = (value: string | undefined): Date | null => {
+  const match = value?.match(/^(\d{2})(\d{2})(\d{2})$/)
+  if (!match) return null
+
+  const [day, month, year] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  const date = new Date(Date.UTC(year < 80 ? 2000 + year : 1900 + year, month - 1, day))
+
+  return date.getUTCDate() === day && date.getUTCMonth() === month - 1 ? date : null
+}
+
+// (d)ddmm.mmmm plus hemisphere to signed decimal degrees
+const parseCoordinate = (value: string | undefined, hemisphere: string | undefined, max: number): number | null => {
+  const raw = parseNumber(value)
+  if (raw === null || !hemisphere) return null
+
+  const degrees = Math.floor(raw / 100)
+  const minutes = raw - degrees * 100
+  const decimal = degrees + minutes / 60
+  if (minutes >= 60 || decimal > max) return null
+
+  if (hemisphere === 'S' || hemisphere === 'W') return -decimal
+  return hemisphere === 'N' || hemisphere === 'E' ? decimal : null
+}
+
+const round = (value: number, digits: number) => Math.round(value * 10 ** digits) / 10 ** digits
+
+/**
+ * Parse one sentence. Checksums are mandatory; sentence types other than RMC
+ * and GGA are reported as skipped rather than invalid.
+ */
+export const parseNmeaSentence = (line: string): { sentence?: NmeaSentence; skipped?: string; error?: string } => {
+  const match = line.trim().match(SENTENCE)
+  if (!match) return { error: 'Not an NMEA sentence with a checksum' }
+
+  const [, talker, type, data, checksum] = match
+  if (nmeaChecksum(`${talker}${type},${data}`) !== parseInt(checksum, 16)) {
+    return { error: 'Checksum mismatch' }
+  }
+
+  const fields = data.split(',')
+  const timeOfDay = parseTime(fields[0])
+
+  switch (type) {
+    case 'RMC': {
+      if (timeOfDay === null) return { error: 'Invalid time' }
+
+      const valid = fields[1] === 'A'
+      const lat = parseCoordinate(fields[2], fields[3], 90)
+      const long = parseCoordinate(fields[4], fields[5], 180)
+      if (valid && (lat === null || long === null)) return { error: 'Invalid position' }
+
+      const knots = parseNumber(fields[6])
+      return {
+        sentence: {
+          type: 'RMC',
+          timeOfDay,
+          valid,
+          lat,
+          long,
+          speed: knots === null ? null : round(knots * KNOTS_TO_KMH, 2),
+          course: parseNumber(fields[7]),
+          date: parseDate(fields[8])
+        }
+      }
+    }
+    case 'GGA': {
+      if (timeOfDay === null) return { error: 'Invalid time' }
+
+      const valid = (parseNumber(fields[5]) ?? 0) > 0
+      const lat = parseCoordinate(fields[1], fields[2], 90)
+      const long = parseCoordinate(fields[3], fields[4], 180)
+      if (valid && (lat === null || long === null)) return { error: 'Invalid position' }
+
+      return {
+        sentence: {
+          type: 'GGA',
+          timeOfDay,
+          valid,
+          lat,
+          long,
+          noOfSatellites: parseNumber(fields[6]),
+          altitude: parseNumber(fields[8])
+        }
+      }
+    }
+    default:
+      return { skipped: `Unsupported sentence type ${talker}${type}` }
+  }
+}
+
+/**
+ * Turn a batch of sentences into points. GGA carries no date, so sentences are
+ * placed on days relative to each other (a time of day going back by more than
+ * 12 hours is the next day) and anchored on the nearest dated RMC, falling
+ * back to the day the data was received for the last sentence (or the day
+ * before, when that would put it in the future).
+ */
+export const nmeaToFixes = (
+  lines: string[],
+  receivedAt: Date
+): { fixes: NmeaFix[]; results: NmeaSentenceResult[] } => {
+  const results: NmeaSentenceResult[] = []
+  const parsed: { line: number; sentence: NmeaSentence; dayOffset: number }[] = []
+  let dayOffset = 0 // days after the first sentence
+
+  for (const [line, text] of lines.entries()) {
+    const { sentence, skipped, error } = parseNmeaSentence(text)
+    if (!sentence) {
+      results[line] = { line, status: skipped ? 'skipped' : 'invalid', error: skipped ?? error }
+      continue
+    }
+
+    results[line] = { line, status: 'parsed', type: sentence.type }
+
+    const previous = parsed[parsed.length - 1]
+    if (previous) {
+      const step = sentence.timeOfDay - previous.sentence.timeOfDay
+      if (step < -DAY_MS / 2) dayOffset++
+      if (step > DAY_MS / 2) dayOffset--
+    }
+    parsed.push({ line, sentence, dayOffset })
+  }
+
+  // UTC midnight of day offset 0 according to each dated RMC
+  const anchors = parsed.flatMap(({ sentence, dayOffset }, index) =>
+    sentence.type === 'RMC' && sentence.date ? [{ index, midnight: sentence.date.getTime() - dayOffset * DAY_MS }] : []
+  )
+  const nearestAnchor = (index: number) =>
+    anchors.reduce<(typeof anchors)[number] | undefined>(
+      (nearest, anchor) =>
+        !nearest || Math.abs(anchor.index - index) < Math.abs(nearest.index - index) ? anchor : nearest,
+      undefined
+    )?.midnight
+
+  // Without a dated RMC the last sentence is placed on the day received
+  let fallback = 0
+  const last = parsed[parsed.length - 1]
+  if (last) {
+    let lastDay = Math.floor(receivedAt.getTime() / DAY_MS) * DAY_MS
+    if (lastDay + last.sentence.timeOfDay > receivedAt.getTime() + MAX_FUTURE_SKEW_MS) lastDay -= DAY_MS
+    fallback = lastDay - last.dayOffset * DAY_MS
+  }
+
+  // Sentences of one epoch share their absolute fix time
+  const epochs = new Map<number, { rmc?: NmeaRmc; gga?: NmeaGga; lines: number[] }>()
+
+  for (const [index, { line, sentence, dayOffset: offset }] of parsed.entries()) {
+    const trackedAt = (nearestAnchor(index) ?? fallback) + offset * DAY_MS + sentence.timeOfDay
+    const epoch = epochs.get(trackedAt) ?? { lines: [] }
+    if (sentence.type === 'RMC') {
+      epoch.rmc = sentence
+    } else {
+      epoch.gga = sentence
+    }
+    epoch.lines.push(line)
+    epochs.set(trackedAt, epoch)
+  }
+
+  const fixes: NmeaFix[] = []
+
+  for (const [trackedAt, { rmc, gga, lines: epochLines }] of epochs) {
+    const position = rmc?.valid ? rmc : gga?.valid ? gga : null
+    if (!position || position.lat === null || position.long === null) {
+      for (const line of epochLines) {
+        results[line] = { ...results[line], status: 'skipped', error: 'Receiver reported no fix' }
+      }
+      continue
+    }
+
+    const fix: NmeaFix = {
+      lat: round(position.lat, 7),
+      long: round(position.long, 7),
+      fixTime: new Date(trackedAt).toISOString()
+    }
+    if (rmc?.speed != null) fix.speed = rmc.speed
+    if (rmc?.course != null) fix.course = rmc.course
+    if (gga?.altitude != null) fix.altitude = gga.altitude
+    if (gga?.noOfSatellites != null) fix.noOfSatellites = gga.noOfSatellites
+
+    for (const line of epochLines) results[line].fix = fixes.length
+    fixes.push(fix)
+  }
+
+  return { fixes, results }
+}
@@ -0,0 +1,142 @@
+import { PrismaClient } from '@prisma/client';
+import { advanceOdometer, OdometerPoint } from './odometer';
+import { haversineDistance } from './geo';
+
+// One unit of the test grid, about 1.1 km near the equator
+const UNIT = 0.01;
+
+const at = (minutes: number) => new Date(Date.UTC(2026, 0, 1, 8, minutes));
+
+interface FindFirstArgs {
+  where: {
+    id: { notIn: number[] };
+    trackedAt: { lte?: Date; gte?: Date };
+  };
+  orderBy: { trackedAt?: 'asc' | 'desc' }[];
+}
+
+interface DeviceUpdateArgs {
+  data: {
+    odometer?: { increment: number };
+    odometerLat?: number;
+    odometerLong?: number;
+    odometerAt?: Date;
+  };
+}
+
+// In-memory stand-in for the queries advanceOdometer makes
+const fakeTracker = () => {
+  const rows: OdometerPoint[] = [];
+  const device = {
+    odometer: 0,
+    odometerLat: null as number | null,
+    odometerLong: null as number | null,
+    odometerAt: null as Date | null,
+    user: { timezone: 'UTC' },
+  };
+
+  const client = {
+    device: {
+      findUnique: () => Promise.resolve(device),
+      update: ({ data }: DeviceUpdateArgs) => {
+        const { odometer, ...anchor } = data;
+        Object.assign(device, anchor);
+        device.odometer += odometer?.increment ?? 0;
+        return Promise.resolve(device);
+      },
+    },
+    deviceDailyDistance: { upsert: () => Promise.resolve({}) },
+    tracking: {
+      findFirst: ({ where, orderBy }: FindFirstArgs) => {
+        const { lte, gte } = where.trackedAt;
+        const matches = rows
+          .filter((row) => !where.id.notIn.includes(row.id))
+          .filter((row) =>
+            lte ? row.trackedAt <= lte : gte && row.trackedAt >= gte,
+          )
+          .sort(
+            (a, b) =>
+              a.trackedAt.getTime() - b.trackedAt.getTime() || a.id - b.id,
+          );
+        if (orderBy[0].trackedAt === 'desc') matches.reverse();
+        return Promise.resolve(matches[0] ?? null);
+      },
+    },
+  };
+
+  const store = (x: number, y: number, minutes: number): OdometerPoint => {
+    const point = {
+      id: rows.length + 1,
+      lat: x * UNIT,
+      long: y * UNIT,
+      trackedAt: at(minutes),
+    };
+    rows.push(point);
+    return point;
+  };
+
+  return { client: client as unknown as PrismaClient, device, store };
+};
+
+const pathLength = (points: OdometerPoint[]) =>
+  points
+    .slice(1)
+    .reduce(
+      (total, point, i) => total + haversineDistance(points[i], point),
+      0,
+    );
+
+describe('advanceOdometer', () => {
+  it('counts points in order along the path', async () => {
+    const { client, device, store } = fakeTracker();
+    const points = [store(0, 0, 0), store(0, 1, 10), store(1, 1, 20)];
+
+    for (const point of points) {
+      await advanceOdometer(client, 'DEV', point);
+    }
+
+    expect(device.odometer).toBeCloseTo(pathLength(points), 6);
+  });
+
+  it('adds the detour of a single late point', async () => {
+    const { client, device, store } = fakeTracker();
+    const x = store(0, 0, 0);
+    const y = store(1, 0, 30);
+    await advanceOdometer(client, 'DEV', x);
+    await advanceOdometer(client, 'DEV', y);
+
+    const a = store(0, 1, 15);
+    await advanceOdometer(client, 'DEV', a);
+
+    expect(device.odometer).toBeCloseTo(pathLength([x, a, y]), 6);
+    expect(device.odometerAt).toEqual(y.trackedAt);
+  });
+
+  it('counts a late batch along its whole path', async () => {
+    const { client, device, store } = fakeTracker();
+    const x = store(0, 0, 0);
+    const y = store(1, 0, 30);
+    await advanceOdometer(client, 'DEV', x);
+    await advanceOdometer(client, 'DEV', y);
+
+    // The whole batch is stored before it is replayed in fix order
+    const a = store(0, 1, 10);
+    const b = store(1, 1, 20);
+    await advanceOdometer(client, 'DEV', a, [b.id]);
+    await advanceOdometer(client, 'DEV', b);
+
+    expect(device.odometer).toBeCloseTo(pathLength([x, a, b, y]), 6);
+  });
+
+  it('ignores late points that only jitter around the path', async () => {
+    const { client, device, store } = fakeTracker();
+    const x = store(0, 0, 0);
+    const y = store(1, 0, 30);
+    await advanceOdometer(client, 'DEV', x);
+    await advanceOdometer(client, 'DEV', y);
+
+    const onTheWay = store(0.5, 0, 15);
+    expect(await advanceOdometer(client, 'DEV', onTheWay)).toBe(0);
+    expect(device.odometer).toBeCloseTo(pathLength([x, y]), 6);
+  });
+});
@@ -0,0 +1,155 @@
+import { PrismaClient } from '@prisma/client'
+import { keysetOrderBy } from './cursor'
+import { GeoPoint, haversineDistance } from './geo'
+import { DEFAULT_TIMEZONE, zonedDay } from './time-window'
+
+// Movements shorter than this from the last counted point are GPS jitter
+export const ODOMETER_JITTER_METERS = 15
+
+// Implied speeds above this (km/h) are position jumps, not travel
+export const ODOMETER_MAX_SPEED = 250
+
+type TimedPoint = GeoPoint & { trackedAt: Date }
+
+export interface OdometerPoint extends TimedPoint {
+  id: number // tracking row the point was stored as
+}
+
+// Midnight UTC of the day a timestamp falls on
+export const utcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()))
+
+// km/h needed to get from one fix to the other
+const impliedSpeed = (from: TimedPoint, to: TimedPoint) => {
+  const seconds = Math.abs(to.trackedAt.getTime() - from.trackedAt.getTime()) / 1000
+  return seconds === 0 ? Infinity : (haversineDistance(from, to) / seconds) * 3.6
+}
+
+// Nearest counted usable fix before or after a point, other than the point itself
+const neighbour = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: OdometerPoint,
+  pending: number[],
+  side: 'before' | 'after'
+): Promise<TimedPoint | null> => {
+  const row = await client.tracking.findFirst({
+    where: {
+      deviceCode,
+      id: { notIn: [point.id, ...pending] },
+      quality: { not: 'REJECTED' },
+      lat: { not: null },
+      long: { not: null },
+      trackedAt: side === 'before' ? { lte: point.trackedAt } : { gte: point.trackedAt }
+    },
+    orderBy: keysetOrderBy(side === 'before' ? 'desc' : 'asc'),
+    select: { lat: true, long: true, trackedAt: true }
+  })
+
+  return row && row.lat !== null && row.long !== null ? { lat: row.lat, long: row.long, trackedAt: row.trackedAt } : null
+}
+
+/**
+ * Metres a late point (buffered offline, batch upload) adds to a path already
+ * counted past it: the straight line between its counted neighbours is
+ * replaced by the two legs through it. Neighbours skipped as jitter when they
+ * arrived still count here, so this is an approximation of what in-order
+ * ingest adds.
+ */
+const lateDistance = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: OdometerPoint,
+  pending: number[]
+): Promise<number> => {
+  const [before, after] = await Promise.all([
+    neighbour(client, deviceCode, point, pending, 'before'),
+    neighbour(client, deviceCode, point, pending, 'after')
+  ])
+
+  for (const other of [before, after]) {
+    if (other && impliedSpeed(other, point) > ODOMETER_MAX_SPEED) return 0
+  }
+
+  const legs = (before ? haversineDistance(before, point) : 0) + (after ? haversineDistance(point, after) : 0)
+  const replaced = before && after ? haversineDistance(before, after) : 0
+  const added = legs - replaced
+
+  return added < ODOMETER_JITTER_METERS ? 0 : added
+}
+
+/**
+ * Advance the device odometer with a newly stored point and return the metres
+ * added. The last counted point only moves once the device has travelled more
+ * than the jitter threshold, so a parked tracker does not accumulate distance
+ * while slow real movement still adds up. Daily totals are kept per calendar
+ * day in the owner's timezone.
+ *
+ * `pending` lists stored points that are still to be counted, such as the
+ * later points of a batch being replayed; late points are not measured
+ * against them.
+ */
+export const advanceOdometer = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: OdometerPoint,
+  pending: number[] = []
+): Promise<number> => {
+  const device = await client.device.findUnique({
+    where: { code: deviceCode },
+    select: {
+      odometerLat: true,
+      odometerLong: true,
+      odometerAt: true,
+      user: { select: { timezone: true } }
+    }
+  })
+
+  if (!device) return 0
+
+  const day = zonedDay(point.trackedAt, device.user?.timezone || DEFAULT_TIMEZONE)
+  const addDaily = (distance: number) =>
+    client.deviceDailyDistance.upsert({
+      where: { deviceCode_day: { deviceCode, day } },
+      create: { deviceCode, day, distance },
+      update: { distance: { increment: distance } }
+    })
+
+  const anchorPoint = { odometerLat: point.lat, odometerLong: point.long, odometerAt: point.trackedAt }
+
+  if (device.odometerLat === null || device.odometerLong === null || device.odometerAt === null) {
+    await client.device.update({ where: { code: deviceCode }, data: anchorPoint })
+    return 0
+  }
+
+  // Older than the last counted point: correct the segment it belongs to
+  if (point.trackedAt < device.odometerAt) {
+    const distance = await lateDistance(client, deviceCode, point, pending)
+    if (distance > 0) {
+      await client.device.update({ where: { code: deviceCode }, data: { odometer: { increment: distance } } })
+      await addDaily(distance)
+    }
+    return distance
+  }
+
+  const distance = haversineDistance({ lat: device.odometerLat, long: device.odometerLong }, point)
+  if (distance < ODOMETER_JITTER_METERS) return 0
+
+  const seconds = (point.trackedAt.getTime() - device.odometerAt.getTime()) / 1000
+  if (seconds <= 0 || (distance / seconds) * 3.6 > ODOMETER_MAX_SPEED) {
+    // Restart counting from the new position without adding the jump
+    await client.device.update({ where: { code: deviceCode }, data: anchorPoint })
+    return 0
+  }
+
+  await client.device.update({
+    where: { code: deviceCode },
+    data: {
+      ...anchorPoint,
+      odometer: { increment: distance }
+    }
+  })
+  await addDaily(distance)
+
+  return distance
+}
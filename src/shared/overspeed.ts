@@ -0,0 +1,103 @@
+// Per-device overspeed rules evaluated on ingest
+
+import { Alert, PrismaClient, SpeedRule } from '@prisma/client'
+import { DEFAULT_TIMEZONE, isWithinDailyWindow } from './time-window'
+
+// An episode only ends once speed drops this far (km/h) below the limit, so a
+// vehicle hovering around the limit raises one alert rather than many
+export const OVERSPEED_HYSTERESIS_KMH = 5
+
+export interface SpeedPoint {
+  trackingId: number
+  lat: number
+  long: number
+  speed: number | null // km/h
+  trackedAt: Date
+}
+
+type SpeedRuleState = Pick<SpeedRule, 'exceedingSince' | 'alerted'>
+
+/**
+ * Advance a rule's episode state with a new point. Returns the next state and
+ * whether this point raises the episode's alert.
+ */
+export const nextSpeedRuleState = (
+  rule: Pick<SpeedRule, 'limit' | 'minDurationSeconds'> & SpeedRuleState,
+  speed: number,
+  trackedAt: Date,
+  active: boolean
+): SpeedRuleState & { raise: boolean } => {
+  const above = active && speed > rule.limit
+  const holding = active && rule.exceedingSince !== null && speed > rule.limit - OVERSPEED_HYSTERESIS_KMH
+
+  if (!above && !holding) {
+    return { exceedingSince: null, alerted: false, raise: false }
+  }
+
+  const exceedingSince = rule.exceedingSince ?? trackedAt
+  const elapsedSeconds = (trackedAt.getTime() - exceedingSince.getTime()) / 1000
+  const raise = above && !rule.alerted && elapsedSeconds >= rule.minDurationSeconds
+
+  return { exceedingSince, alerted: rule.alerted || raise, raise }
+}
+
+/**
+ * Check a new point against every active speed rule of a device, persist the
+ * episode state and return the alerts that were raised.
+ */
+export const evaluateSpeedRules = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: SpeedPoint
+): Promise<Alert[]> => {
+  if (point.speed === null) return []
+
+  const rules = await client.speedRule.findMany({
+    where: {
+      isActive: true,
+      device: { code: deviceCode }
+    },
+    include: {
+      device: { select: { user: { select: { timezone: true } } } }
+    }
+  })
+
+  const alerts: Alert[] = []
+
+  for (const rule of rules) {
+    // Late points cannot reopen or close an episode that has moved on
+    if (rule.stateChangedAt && point.trackedAt < rule.stateChangedAt) continue
+
+    const timezone = rule.device.user?.timezone || DEFAULT_TIMEZONE
+    const active =
+      !rule.activeFrom || !rule.activeTo || isWithinDailyWindow(point.trackedAt, rule.activeFrom, rule.activeTo, timezone)
+
+    const next = nextSpeedRuleState(rule, point.speed, point.trackedAt, active)
+    if (next.exceedingSince?.getTime() === rule.exceedingSince?.getTime() && next.alerted === rule.alerted) continue
+
+    // Guard against a concurrent ingest having already moved the state on
+    const updated = await client.speedRule.updateMany({
+      where: { id: rule.id, exceedingSince: rule.exceedingSince, alerted: rule.alerted },
+      data: { exceedingSince: next.exceedingSince, alerted: next.alerted, stateChangedAt: point.trackedAt }
+    })
+    if (updated.count === 0 || !next.raise) continue
+
+    const alert = await client.alert.create({
+      data: {
+        deviceCode,
+        type: 'OVERSPEED',
+        message: `Speed ${Math.round(point.speed)} km/h above the ${rule.limit} km/h limit`,
+        value: point.speed,
+        threshold: rule.limit,
+        trackingId: point.trackingId,
+        lat: point.lat,
+        long: point.long,
+        occurredAt: point.trackedAt
+      }
+    })
+
+    alerts.push(alert)
+  }
+
+  return alerts
+}
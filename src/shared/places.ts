@@ -0,0 +1,67 @@
+// Bundled places for the offline geocoder: major Indian cities plus a few
+// regional hubs abroad. Each place covers a circle of `radiusKm` around its
+// centre; beyond that a point is described by its distance to the place.
+
+export interface Place {
+  name: string
+  region: string // state or province
+  country: string
+  countryCode: string // ISO 3166-1 alpha-2
+  lat: number
+  long: number
+  radiusKm: number
+}
+
+export const PLACES: Place[] = [
+  { name: 'Mumbai', region: 'Maharashtra', country: 'India', countryCode: 'IN', lat: 19.076, long: 72.8777, radiusKm: 25 },
+  { name: 'Pune', region: 'Maharashtra', country: 'India', countryCode: 'IN', lat: 18.5204, long: 73.8567, radiusKm: 18 },
+  { name: 'Nagpur', region: 'Maharashtra', country: 'India', countryCode: 'IN', lat: 21.1458, long: 79.0882, radiusKm: 15 },
+  { name: 'Nashik', region: 'Maharashtra', country: 'India', countryCode: 'IN', lat: 19.9975, long: 73.7898, radiusKm: 10 },
+  { name: 'Delhi', region: 'Delhi', country: 'India', countryCode: 'IN', lat: 28.6139, long: 77.209, radiusKm: 25 },
+  { name: 'Gurugram', region: 'Haryana', country: 'India', countryCode: 'IN', lat: 28.4595, long: 77.0266, radiusKm: 12 },
+  { name: 'Noida', region: 'Uttar Pradesh', country: 'India', countryCode: 'IN', lat: 28.5355, long: 77.391, radiusKm: 12 },
+  { name: 'Lucknow', region: 'Uttar Pradesh', country: 'India', countryCode: 'IN', lat: 26.8467, long: 80.9462, radiusKm: 15 },
+  { name: 'Kanpur', region: 'Uttar Pradesh', country: 'India', countryCode: 'IN', lat: 26.4499, long: 80.3319, radiusKm: 12 },
+  { name: 'Varanasi', region: 'Uttar Pradesh', country: 'India', countryCode: 'IN', lat: 25.3176, long: 82.9739, radiusKm: 10 },
+  { name: 'Agra', region: 'Uttar Pradesh', country: 'India', countryCode: 'IN', lat: 27.1767, long: 78.0081, radiusKm: 10 },
+  { name: 'Jaipur', region: 'Rajasthan', country: 'India', countryCode: 'IN', lat: 26.9124, long: 75.7873, radiusKm: 15 },
+  { name: 'Jodhpur', region: 'Rajasthan', country: 'India', countryCode: 'IN', lat: 26.2389, long: 73.0243, radiusKm: 10 },
+  { name: 'Chandigarh', region: 'Chandigarh', country: 'India', countryCode: 'IN', lat: 30.7333, long: 76.7794, radiusKm: 10 },
+  { name: 'Ludhiana', region: 'Punjab', country: 'India', countryCode: 'IN', lat: 30.901, long: 75.8573, radiusKm: 12 },
+  { name: 'Amritsar', region: 'Punjab', country: 'India', countryCode: 'IN', lat: 31.634, long: 74.8723, radiusKm: 10 },
+  { name: 'Dehradun', region: 'Uttarakhand', country: 'India', countryCode: 'IN', lat: 30.3165, long: 78.0322, radiusKm: 8 },
+  { name: 'Srinagar', region: 'Jammu and Kashmir', country: 'India', countryCode: 'IN', lat: 34.0837, long: 74.7973, radiusKm: 10 },
+  { name: 'Ahmedabad', region: 'Gujarat', country: 'India', countryCode: 'IN', lat: 23.0225, long: 72.5714, radiusKm: 18 },
+  { name: 'Surat', region: 'Gujarat', country: 'India', countryCode: 'IN', lat: 21.1702, long: 72.8311, radiusKm: 15 },
+  { name: 'Vadodara', region: 'Gujarat', country: 'India', countryCode: 'IN', lat: 22.3072, long: 73.1812, radiusKm: 10 },
+  { name: 'Rajkot', region: 'Gujarat', country: 'India', countryCode: 'IN', lat: 22.3039, long: 70.8022, radiusKm: 10 },
+  { name: 'Bhopal', region: 'Madhya Pradesh', country: 'India', countryCode: 'IN', lat: 23.2599, long: 77.4126, radiusKm: 12 },
+  { name: 'Indore', region: 'Madhya Pradesh', country: 'India', countryCode: 'IN', lat: 22.7196, long: 75.8577, radiusKm: 12 },
+  { name: 'Raipur', region: 'Chhattisgarh', country: 'India', countryCode: 'IN', lat: 21.2514, long: 81.6296, radiusKm: 10 },
+  { name: 'Patna', region: 'Bihar', country: 'India', countryCode: 'IN', lat: 25.5941, long: 85.1376, radiusKm: 12 },
+  { name: 'Ranchi', region: 'Jharkhand', country: 'India', countryCode: 'IN', lat: 23.3441, long: 85.3096, radiusKm: 10 },
+  { name: 'Kolkata', region: 'West Bengal', country: 'India', countryCode: 'IN', lat: 22.5726, long: 88.3639, radiusKm: 20 },
+  { name: 'Bhubaneswar', region: 'Odisha', country: 'India', countryCode: 'IN', lat: 20.2961, long: 85.8245, radiusKm: 10 },
+  { name: 'Guwahati', region: 'Assam', country: 'India', countryCode: 'IN', lat: 26.1445, long: 91.7362, radiusKm: 10 },
+  { name: 'Hyderabad', region: 'Telangana', country: 'India', countryCode: 'IN', lat: 17.385, long: 78.4867, radiusKm: 22 },
+  { name: 'Visakhapatnam', region: 'Andhra Pradesh', country: 'India', countryCode: 'IN', lat: 17.6868, long: 83.2185, radiusKm: 12 },
+  { name: 'Vijayawada', region: 'Andhra Pradesh', country: 'India', countryCode: 'IN', lat: 16.5062, long: 80.648, radiusKm: 10 },
+  { name: 'Bengaluru', region: 'Karnataka', country: 'India', countryCode: 'IN', lat: 12.9716, long: 77.5946, radiusKm: 22 },
+  { name: 'Mysuru', region: 'Karnataka', country: 'India', countryCode: 'IN', lat: 12.2958, long: 76.6394, radiusKm: 10 },
+  { name: 'Mangaluru', region: 'Karnataka', country: 'India', countryCode: 'IN', lat: 12.9141, long: 74.856, radiusKm: 10 },
+  { name: 'Hubballi', region: 'Karnataka', country: 'India', countryCode: 'IN', lat: 15.3647, long: 75.124, radiusKm: 10 },
+  { name: 'Chennai', region: 'Tamil Nadu', country: 'India', countryCode: 'IN', lat: 13.0827, long: 80.2707, radiusKm: 22 },
+  { name: 'Coimbatore', region: 'Tamil Nadu', country: 'India', countryCode: 'IN', lat: 11.0168, long: 76.9558, radiusKm: 12 },
+  { name: 'Madurai', region: 'Tamil Nadu', country: 'India', countryCode: 'IN', lat: 9.9252, long: 78.1198, radiusKm: 10 },
+  { name: 'Tiruchirappalli', region: 'Tamil Nadu', country: 'India', countryCode: 'IN', lat: 10.7905, long: 78.7047, radiusKm: 10 },
+  { name: 'Kochi', region: 'Kerala', country: 'India', countryCode: 'IN', lat: 9.9312, long: 76.2673, radiusKm: 12 },
+  { name: 'Thiruvananthapuram', region: 'Kerala', country: 'India', countryCode: 'IN', lat: 8.5241, long: 76.9366, radiusKm: 10 },
+  { name: 'Kozhikode', region: 'Kerala', country: 'India', countryCode: 'IN', lat: 11.2588, long: 75.7804, radiusKm: 10 },
+  { name: 'Panaji', region: 'Goa', country: 'India', countryCode: 'IN', lat: 15.4909, long: 73.8278, radiusKm: 8 },
+  { name: 'Dubai', region: 'Dubai', country: 'United Arab Emirates', countryCode: 'AE', lat: 25.2048, long: 55.2708, radiusKm: 25 },
+  { name: 'Abu Dhabi', region: 'Abu Dhabi', country: 'United Arab Emirates', countryCode: 'AE', lat: 24.4539, long: 54.3773, radiusKm: 20 },
+  { name: 'Colombo', region: 'Western Province', country: 'Sri Lanka', countryCode: 'LK', lat: 6.9271, long: 79.8612, radiusKm: 12 },
+  { name: 'Kathmandu', region: 'Bagmati', country: 'Nepal', countryCode: 'NP', lat: 27.7172, long: 85.324, radiusKm: 10 },
+  { name: 'Dhaka', region: 'Dhaka Division', country: 'Bangladesh', countryCode: 'BD', lat: 23.8103, long: 90.4125, radiusKm: 15 },
+  { name: 'Singapore', region: 'Singapore', country: 'Singapore', countryCode: 'SG', lat: 1.3521, long: 103.8198, radiusKm: 20 }
+]
@@ -0,0 +1,123 @@
+// Playback state for API Gateway WebSocket connections. The run is stored on
+// the connection's DynamoDB item; a worker Lambda streams the points and gives
+// up as soon as a command has replaced the run it was started for.
+
+import { randomUUID } from 'crypto'
+import { DynamoDB, Lambda } from 'aws-sdk'
+import { PlaybackLocationUpdate, PlaybackState, PlaybackStatus } from './playback'
+import { DeviceMessage, isAwsError } from './websocket-broadcast'
+
+const dynamodb = new DynamoDB.DocumentClient()
+const tableName = `WebSocketConnections-${process.env.STAGE || 'dev'}`
+
+export interface PlaybackRun {
+  runId: string // replaced by every command, which retires the running worker
+  userId: number
+  deviceCode: string
+  from: string // ISO 8601
+  to: string // ISO 8601
+  speed: number
+  status: Extract<PlaybackState, 'playing' | 'paused'>
+  cursor: { trackedAt: string; id: number } // last point sent, or just before the start
+  lastSent: string | null // fix time of the last point sent
+}
+
+export interface PlaybackWorkerEvent {
+  connectionId: string
+  runId: string
+}
+
+export const newPlaybackRunId = (): string => randomUUID()
+
+export const getPlaybackRun = async (connectionId: string): Promise<PlaybackRun | null> => {
+  const result = await dynamodb.get({
+    TableName: tableName,
+    Key: { connectionId },
+    ProjectionExpression: 'playback'
+  }).promise()
+
+  return (result.Item?.playback as PlaybackRun | undefined) ?? null
+}
+
+export const savePlaybackRun = async (connectionId: string, run: PlaybackRun): Promise<void> => {
+  await dynamodb.update({
+    TableName: tableName,
+    Key: { connectionId },
+    UpdateExpression: 'SET playback = :playback',
+    ConditionExpression: 'attribute_exists(connectionId)',
+    ExpressionAttributeValues: { ':playback': run }
+  }).promise()
+}
+
+/**
+ * Clear the connection's playback. With a runId only that run is cleared, so
+ * a worker finishing late cannot remove a run started after it.
+ */
+export const removePlaybackRun = async (connectionId: string, runId?: string): Promise<void> => {
+  try {
+    await dynamodb.update({
+      TableName: tableName,
+      Key: { connectionId },
+      UpdateExpression: 'REMOVE playback',
+      ...(runId && {
+        ConditionExpression: 'playback.runId = :runId',
+        ExpressionAttributeValues: { ':runId': runId }
+      })
+    }).promise()
+  } catch (error: unknown) {
+    if (!isAwsError(error) || error.code !== 'ConditionalCheckFailedException') throw error
+  }
+}
+
+/**
+ * Record how far a worker got. Returns false when the run has been replaced
+ * or paused, which tells the worker to stop.
+ */
+export const checkpointPlaybackRun = async (
+  connectionId: string,
+  runId: string,
+  cursor: PlaybackRun['cursor'],
+  lastSent: string | null
+): Promise<boolean> => {
+  try {
+    await dynamodb.update({
+      TableName: tableName,
+      Key: { connectionId },
+      UpdateExpression: 'SET playback.#cursor = :cursor, playback.lastSent = :lastSent',
+      ConditionExpression: 'playback.runId = :runId AND playback.#status = :playing',
+      ExpressionAttributeNames: { '#cursor': 'cursor', '#status': 'status' },
+      ExpressionAttributeValues: {
+        ':cursor': cursor,
+        ':lastSent': lastSent,
+        ':runId': runId,
+        ':playing': 'playing'
+      }
+    }).promise()
+
+    return true
+  } catch (error: unknown) {
+    if (isAwsError(error) && error.code === 'ConditionalCheckFailedException') return false
+    throw error
+  }
+}
+
+// Start the worker for a run without waiting for it
+export const startPlaybackWorker = async (event: PlaybackWorkerEvent): Promise<void> => {
+  const functionName = process.env.PLAYBACK_WORKER_FUNCTION
+  if (!functionName) {
+    throw new Error('PLAYBACK_WORKER_FUNCTION is not configured')
+  }
+
+  await new Lambda().invoke({
+    FunctionName: functionName,
+    InvocationType: 'Event',
+    Payload: JSON.stringify(event)
+  }).promise()
+}
+
+// Messages use the same envelope as the broadcasts from track-device
+export const playbackMessage = (
+  type: 'location-update' | 'playback-status',
+  deviceCode: string,
+  data: PlaybackStatus | PlaybackLocationUpdate
+): DeviceMessage<PlaybackStatus | PlaybackLocationUpdate> => ({ type, deviceCode, data })
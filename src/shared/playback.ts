@@ -0,0 +1,153 @@
+// Route playback: the stored points of a device replayed to one WebSocket
+// client at a multiple of real time. Commands are shared by the Nest gateway
+// and the Lambda WebSocket routes; both stream points as `location-update`.
+
+import { PrismaClient } from '@prisma/client'
+import { HistoryCursor, keysetOrderBy, keysetWhere } from './cursor'
+
+export const PLAYBACK_MIN_SPEED = 0.5
+export const PLAYBACK_MAX_SPEED = 1000
+export const PLAYBACK_DEFAULT_SPEED = 10
+
+// Longest real wait between two points, so a device parked for hours does not
+// stall the replay
+export const PLAYBACK_MAX_DELAY_MS = 5000
+
+export const PLAYBACK_MAX_RANGE_MS = 31 * 24 * 60 * 60 * 1000
+
+// Points loaded per query while replaying
+export const PLAYBACK_BATCH_SIZE = 500
+
+export type PlaybackCommand =
+  | { command: 'start'; deviceCode: string; from: Date; to: Date; speed: number; token?: string }
+  | { command: 'pause' }
+  | { command: 'resume' }
+  | { command: 'stop' }
+  | { command: 'seek'; at: Date }
+  | { command: 'speed'; speed: number }
+
+export type PlaybackState = 'playing' | 'paused' | 'ended' | 'stopped' | 'error'
+
+export interface PlaybackStatus {
+  status: PlaybackState
+  deviceCode?: string
+  position?: Date | null // fix time of the last point sent
+  speed?: number
+  message?: string
+}
+
+const parseDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string') return null
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? null : date
+}
+
+const parseSpeed = (value: unknown): number | null => {
+  if (value === undefined) return PLAYBACK_DEFAULT_SPEED
+  const speed = Number(value)
+  return Number.isFinite(speed) && speed >= PLAYBACK_MIN_SPEED && speed <= PLAYBACK_MAX_SPEED ? speed : null
+}
+
+/**
+ * Validate a playback message. `start` needs a device and an ISO 8601 range;
+ * `seek` an ISO 8601 position; `speed` a multiplier of real time.
+ */
+export const parsePlaybackCommand = (body: unknown): { command?: PlaybackCommand; error?: string } => {
+  const message = (typeof body === 'object' && body !== null ? body : {}) as Record<string, unknown>
+  const speedError = `speed must be between ${PLAYBACK_MIN_SPEED} and ${PLAYBACK_MAX_SPEED}`
+
+  switch (message.command) {
+    case 'start': {
+      if (typeof message.deviceCode !== 'string' || !message.deviceCode) {
+        return { error: 'deviceCode is required' }
+      }
+
+      const from = parseDate(message.from)
+      const to = parseDate(message.to)
+      if (!from || !to) return { error: 'from and to must be ISO 8601 date-times' }
+      if (from > to) return { error: 'from must not be after to' }
+      if (to.getTime() - from.getTime() > PLAYBACK_MAX_RANGE_MS) {
+        return { error: 'Playback range must not exceed 31 days' }
+      }
+
+      const speed = parseSpeed(message.speed)
+      if (speed === null) return { error: speedError }
+
+      return {
+        command: {
+          command: 'start',
+          deviceCode: message.deviceCode,
+          from,
+          to,
+          speed,
+          token: typeof message.token === 'string' ? message.token : undefined
+        }
+      }
+    }
+    case 'seek': {
+      const at = parseDate(message.at)
+      return at ? { command: { command: 'seek', at } } : { error: 'at must be an ISO 8601 date-time' }
+    }
+    case 'speed': {
+      const speed = message.speed === undefined ? null : parseSpeed(message.speed)
+      return speed === null ? { error: speedError } : { command: { command: 'speed', speed } }
+    }
+    case 'pause':
+    case 'resume':
+    case 'stop':
+      return { command: { command: message.command } }
+    default:
+      return { error: 'command must be one of start, pause, resume, seek, speed, stop' }
+  }
+}
+
+// Real time to wait before sending a point, given the fix time of the last one
+export const playbackDelay = (previous: Date | null, next: Date, speed: number): number =>
+  previous ? Math.min(Math.max(next.getTime() - previous.getTime(), 0) / speed, PLAYBACK_MAX_DELAY_MS) : 0
+
+// Cursor positioned just before the first point at or after `at`
+export const playbackCursorAt = (at: Date): HistoryCursor => ({ trackedAt: at, id: 0 })
+
+// Next points to replay after the cursor, up to the end of the range
+export const loadPlaybackPoints = (
+  client: PrismaClient,
+  deviceCode: string,
+  after: HistoryCursor,
+  to: Date,
+  take = PLAYBACK_BATCH_SIZE
+) =>
+  client.tracking.findMany({
+    where: {
+      deviceCode,
+      trackedAt: { lte: to },
+      quality: { not: 'REJECTED' },
+      ...keysetWhere(after, 'asc')
+    },
+    orderBy: keysetOrderBy('asc'),
+    take,
+    select: {
+      id: true,
+      lat: true,
+      long: true,
+      level: true,
+      altitude: true,
+      speed: true,
+      course: true,
+      compress: true,
+      weight: true,
+      noOfSatellites: true,
+      trackedAt: true,
+      receivedAt: true
+    }
+  })
+
+export type PlaybackPoint = Awaited<ReturnType<typeof loadPlaybackPoints>>[number]
+
+// `location-update` payload for a replayed point
+export const playbackLocationUpdate = (deviceCode: string, point: PlaybackPoint) => ({
+  ...point,
+  deviceCode,
+  playback: true
+})
+
+export type PlaybackLocationUpdate = ReturnType<typeof playbackLocationUpdate>
@@ -1,6 +1,17 @@
+import { PrismaClient } from '@prisma/client'
+
 // Re-export Supabase client for database operations
-// All database operations should use the Supabase client
 export { supabase } from './supabase-client'
 
-// Note: Prisma has been replaced with Supabase client
-// Use supabase.from('TableName').select/insert/update/delete() for database operations
\ No newline at end of file
+// Global variable to store Prisma client in development
+declare global {
+  var __prisma: PrismaClient | undefined
+}
+
+// Prisma client shared by the Lambda handlers, created once per container and
+// reused across warm invocations
+export const prisma = global.__prisma ?? new PrismaClient({ datasourceUrl: process.env.DATABASE_URL })
+
+if (process.env.NODE_ENV !== 'production') {
+  global.__prisma = prisma
+}
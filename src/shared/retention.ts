@@ -0,0 +1,180 @@
+// Tracking retention. Rows older than the retention period of the device
+// owner are moved into gzip-compressed chunks in TrackingArchive, one per
+// device and UTC day, and can be restored on demand.
+
+import { gunzipSync, gzipSync } from 'zlib'
+import { Prisma, PrismaClient, Tracking, UserRole } from '@prisma/client'
+import { keysetOrderBy } from './cursor'
+import { utcDay } from './odometer'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Used when a role has no RetentionPolicy row
+export const DEFAULT_RETENTION_DAYS: Record<UserRole, number> = {
+  USER: 90,
+  EMPLOYEE: 180,
+  ADMIN: 365,
+  SUPER_ADMIN: 730
+}
+
+// Restored days stay in the hot table this long before they are archived again
+export const RESTORE_HOLD_DAYS = 30
+
+// How often archival runs where nothing else schedules it
+export const ARCHIVE_INTERVAL_MS = DAY_MS
+
+export interface ArchiveResult {
+  deviceCode: string
+  archived: number
+}
+
+// Retention period per role, stored policies over the defaults
+export const getRetentionPolicies = async (client: PrismaClient): Promise<Record<UserRole, number>> => {
+  const stored = await client.retentionPolicy.findMany()
+  const policies = { ...DEFAULT_RETENTION_DAYS }
+  for (const policy of stored) policies[policy.role] = policy.retentionDays
+
+  return policies
+}
+
+// An account override wins over its role; unassigned devices get the USER policy
+export const retentionDaysFor = (
+  owner: { role: UserRole; retentionDays: number | null } | null,
+  policies: Record<UserRole, number>
+): number => owner?.retentionDays ?? policies[owner?.role ?? 'USER']
+
+export const compressRows = (rows: Tracking[]): Buffer => gzipSync(JSON.stringify(rows))
+
+export const decompressRows = (data: Uint8Array): Tracking[] =>
+  (JSON.parse(gunzipSync(data).toString('utf8')) as Tracking[]).map((row) => ({
+    ...row,
+    trackedAt: new Date(row.trackedAt),
+    receivedAt: new Date(row.receivedAt)
+  }))
+
+/**
+ * Move a device's rows in [from, to) into the archive chunk of the day `from`
+ * falls on, merging with what the chunk already holds.
+ */
+const archiveRange = async (client: PrismaClient, deviceCode: string, from: Date, to: Date): Promise<number> =>
+  client.$transaction(async (tx) => {
+    const rows = await tx.tracking.findMany({
+      where: { deviceCode, trackedAt: { gte: from, lt: to } },
+      orderBy: keysetOrderBy('asc')
+    })
+    if (rows.length === 0) return 0
+
+    const day = utcDay(from)
+    const existing = await tx.trackingArchive.findUnique({ where: { deviceCode_day: { deviceCode, day } } })
+
+    // Restored rows are already in the chunk, so merge by id
+    const byId = new Map<number, Tracking>()
+    for (const row of existing ? decompressRows(existing.data) : []) byId.set(row.id, row)
+    for (const row of rows) byId.set(row.id, row)
+    const merged = [...byId.values()].sort((a, b) => a.trackedAt.getTime() - b.trackedAt.getTime() || a.id - b.id)
+
+    const chunk = {
+      fromTrackedAt: merged[0].trackedAt,
+      toTrackedAt: merged[merged.length - 1].trackedAt,
+      pointCount: merged.length,
+      data: compressRows(merged),
+      archivedAt: new Date()
+    }
+    await tx.trackingArchive.upsert({
+      where: { deviceCode_day: { deviceCode, day } },
+      create: { deviceCode, day, ...chunk },
+      update: chunk
+    })
+
+    await tx.tracking.deleteMany({ where: { id: { in: rows.map((row) => row.id) } } })
+    return rows.length
+  })
+
+/**
+ * Archive every device's rows that are past its owner's retention period.
+ * Days restored within the last RESTORE_HOLD_DAYS are left alone.
+ */
+export const archiveExpiredTracking = async (client: PrismaClient, now = new Date()): Promise<ArchiveResult[]> => {
+  const policies = await getRetentionPolicies(client)
+  const devices = await client.device.findMany({
+    select: { code: true, user: { select: { role: true, retentionDays: true } } }
+  })
+
+  const results: ArchiveResult[] = []
+
+  for (const device of devices) {
+    const cutoff = new Date(now.getTime() - retentionDaysFor(device.user, policies) * DAY_MS)
+
+    const held = await client.trackingArchive.findMany({
+      where: { deviceCode: device.code, restoredAt: { gte: new Date(now.getTime() - RESTORE_HOLD_DAYS * DAY_MS) } },
+      select: { day: true }
+    })
+    const where: Prisma.TrackingWhereInput = {
+      deviceCode: device.code,
+      trackedAt: { lt: cutoff },
+      ...(held.length > 0 && {
+        NOT: held.map(({ day }) => ({ trackedAt: { gte: day, lt: new Date(day.getTime() + DAY_MS) } }))
+      })
+    }
+
+    let archived = 0
+    for (;;) {
+      const oldest = await client.tracking.findFirst({ where, orderBy: { trackedAt: 'asc' }, select: { trackedAt: true } })
+      if (!oldest) break
+
+      const from = utcDay(oldest.trackedAt)
+      const to = new Date(Math.min(from.getTime() + DAY_MS, cutoff.getTime()))
+      archived += await archiveRange(client, device.code, from, to)
+    }
+
+    if (archived > 0) results.push({ deviceCode: device.code, archived })
+  }
+
+  return results
+}
+
+/**
+ * Copy a device's archived rows within [from, to] back into the hot table,
+ * keeping their original ids. Returns how many rows were inserted.
+ */
+export const restoreArchivedTracking = async (
+  client: PrismaClient,
+  deviceCode: string,
+  from: Date,
+  to: Date,
+  now = new Date()
+): Promise<{ restored: number; chunks: number }> => {
+  const chunks = await client.trackingArchive.findMany({
+    where: { deviceCode, fromTrackedAt: { lte: to }, toTrackedAt: { gte: from } },
+    orderBy: { day: 'asc' }
+  })
+
+  const rows = chunks
+    .flatMap((chunk) => decompressRows(chunk.data))
+    .filter((row) => row.trackedAt >= from && row.trackedAt <= to)
+
+  // Owners may have been deleted since the rows were archived
+  const userIds = [...new Set(rows.map((row) => row.userId).filter((id): id is number => id !== null))]
+  const users = await client.user.findMany({ where: { id: { in: userIds } }, select: { id: true } })
+  const existingUsers = new Set(users.map((user) => user.id))
+
+  const restored = await client.$transaction(async (tx) => {
+    const created = await tx.tracking.createMany({
+      data: rows.map((row) => ({
+        ...row,
+        userId: row.userId !== null && existingUsers.has(row.userId) ? row.userId : null,
+        unparsedTelemetry: row.unparsedTelemetry ?? Prisma.DbNull
+      })),
+      skipDuplicates: true
+    })
+
+    await tx.trackingArchive.updateMany({
+      where: { id: { in: chunks.map((chunk) => chunk.id) } },
+      data: { restoredAt: now }
+    })
+
+    return created.count
+  })
+
+  return { restored, chunks: chunks.length }
+}
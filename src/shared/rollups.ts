@@ -0,0 +1,86 @@
+// Hourly and daily telemetry rollups per device, updated incrementally on
+// ingest so dashboards never have to scan raw Tracking rows. Buckets are the
+// hours and days of the owner's timezone, like the odometer's daily totals.
+
+import { Prisma, PrismaClient, RollupPeriod } from '@prisma/client'
+import { DEFAULT_TIMEZONE, zonedStartOf } from './time-window'
+
+// Speed (km/h) at or above which the time since the previous fix is moving time
+export const ROLLUP_MOVING_SPEED = 5
+
+// Longer silences before a fix are not counted as moving time
+export const ROLLUP_MAX_GAP_SECONDS = 10 * 60
+
+export const ROLLUP_PERIODS: RollupPeriod[] = ['HOUR', 'DAY']
+
+export interface RollupPoint {
+  speed: number | null // km/h
+  level: number | null // battery, percent
+  distance: number // metres the odometer added for this point
+  trackedAt: Date
+}
+
+// Start of the hour or day a timestamp falls in, in the owner's timezone
+export const rollupBucket = (date: Date, period: RollupPeriod, timezone: string): Date =>
+  zonedStartOf(date, period === 'HOUR' ? 'hour' : 'day', timezone)
+
+// Timezone the buckets of a device are cut in
+export const rollupTimezone = (device: { user: { timezone: string | null } | null }): string =>
+  device.user?.timezone || DEFAULT_TIMEZONE
+
+// Timestamp parameter read as UTC whatever the session timezone
+const utcTimestamp = (date: Date) => Prisma.sql`(${date.toISOString()}::timestamptz AT TIME ZONE 'UTC')`
+
+/**
+ * Add a stored point to its hour and day rollups. Moving time needs the
+ * previous fix, so a point older than the latest one counted only adds to the
+ * other figures.
+ */
+export const updateRollups = async (client: PrismaClient, deviceCode: string, point: RollupPoint): Promise<void> => {
+  const device = await client.device.findUnique({
+    where: { code: deviceCode },
+    select: { rollupAt: true, user: { select: { timezone: true } } }
+  })
+  if (!device) return
+  const timezone = rollupTimezone(device)
+
+  let movingSeconds = 0
+  if (!device.rollupAt || point.trackedAt >= device.rollupAt) {
+    // Guard against a concurrent ingest having already moved it on
+    const advanced = await client.device.updateMany({
+      where: { code: deviceCode, rollupAt: device.rollupAt },
+      data: { rollupAt: point.trackedAt }
+    })
+
+    const seconds = device.rollupAt ? (point.trackedAt.getTime() - device.rollupAt.getTime()) / 1000 : 0
+    if (advanced.count > 0 && point.speed !== null && point.speed >= ROLLUP_MOVING_SPEED && seconds <= ROLLUP_MAX_GAP_SECONDS) {
+      movingSeconds = seconds
+    }
+  }
+
+  // One statement per bucket so concurrent points cannot lose updates
+  for (const period of ROLLUP_PERIODS) {
+    await client.$executeRaw`
+      INSERT INTO "TelemetryRollup" (
+        "deviceCode", "period", "bucket", "pointCount", "distance", "maxSpeed", "speedSum",
+        "speedCount", "movingSeconds", "minBattery", "maxBattery", "firstAt", "lastAt"
+      )
+      VALUES (
+        ${deviceCode}, ${period}::"RollupPeriod", ${utcTimestamp(rollupBucket(point.trackedAt, period, timezone))}, 1,
+        ${point.distance}, ${point.speed}, ${point.speed ?? 0}, ${point.speed === null ? 0 : 1}, ${movingSeconds},
+        ${point.level}, ${point.level}, ${utcTimestamp(point.trackedAt)}, ${utcTimestamp(point.trackedAt)}
+      )
+      ON CONFLICT ("deviceCode", "period", "bucket") DO UPDATE SET
+        "pointCount" = "TelemetryRollup"."pointCount" + 1,
+        "distance" = "TelemetryRollup"."distance" + EXCLUDED."distance",
+        "maxSpeed" = GREATEST("TelemetryRollup"."maxSpeed", EXCLUDED."maxSpeed"),
+        "speedSum" = "TelemetryRollup"."speedSum" + EXCLUDED."speedSum",
+        "speedCount" = "TelemetryRollup"."speedCount" + EXCLUDED."speedCount",
+        "movingSeconds" = "TelemetryRollup"."movingSeconds" + EXCLUDED."movingSeconds",
+        "minBattery" = LEAST("TelemetryRollup"."minBattery", EXCLUDED."minBattery"),
+        "maxBattery" = GREATEST("TelemetryRollup"."maxBattery", EXCLUDED."maxBattery"),
+        "firstAt" = LEAST("TelemetryRollup"."firstAt", EXCLUDED."firstAt"),
+        "lastAt" = GREATEST("TelemetryRollup"."lastAt", EXCLUDED."lastAt")
+    `
+  }
+}
@@ -0,0 +1,85 @@
+import { parseSimplifyOptions, simplifyTrack } from './simplify';
+import { TrackingRow } from './track';
+
+const START = Date.UTC(2026, 0, 1, 8, 0, 0);
+
+const row = (
+  id: number,
+  lat: number | null,
+  long: number | null,
+  minutes = id,
+  speed: number | null = 40,
+): TrackingRow => ({
+  id,
+  lat,
+  long,
+  speed,
+  trackedAt: new Date(START + minutes * 60 * 1000),
+});
+
+const ids = (rows: TrackingRow[]) => rows.map((r) => r.id);
+
+describe('parseSimplifyOptions', () => {
+  it('reads tolerance and point budget', () => {
+    expect(parseSimplifyOptions('25', '100')).toEqual({
+      options: { tolerance: 25, maxPoints: 100 },
+    });
+    expect(parseSimplifyOptions(undefined, '')).toEqual({ options: {} });
+  });
+
+  it('rejects unusable values', () => {
+    expect(parseSimplifyOptions('0').error).toMatch(/^simplify must be/);
+    expect(parseSimplifyOptions('abc').error).toMatch(/^simplify must be/);
+    expect(parseSimplifyOptions(undefined, '1').error).toMatch(
+      /^maxPoints must be/,
+    );
+    expect(parseSimplifyOptions(undefined, '2.5').error).toMatch(
+      /^maxPoints must be/,
+    );
+  });
+});
+
+describe('simplifyTrack', () => {
+  // A 1 km detour north, with ids 2 and 4 about 10 m off its two legs
+  const DETOUR = [
+    row(1, 0, 0),
+    row(2, 0.0046, 0.005),
+    row(3, 0.009, 0.01),
+    row(4, 0.0046, 0.015),
+    row(5, 0, 0.02),
+  ];
+
+  it('drops points within the tolerance of the simplified line', () => {
+    expect(ids(simplifyTrack(DETOUR, { tolerance: 50 }))).toEqual([1, 3, 5]);
+  });
+
+  it('keeps every point under a tolerance smaller than their offsets', () => {
+    expect(ids(simplifyTrack(DETOUR, { tolerance: 1 }))).toEqual([
+      1, 2, 3, 4, 5,
+    ]);
+  });
+
+  it('keeps the most significant points within a point budget', () => {
+    expect(ids(simplifyTrack(DETOUR, { maxPoints: 3 }))).toEqual([1, 3, 5]);
+    expect(ids(simplifyTrack(DETOUR, { maxPoints: 2 }))).toEqual([1, 5]);
+  });
+
+  it('drops rows without coordinates', () => {
+    const rows = [row(1, 0, 0), row(2, null, null), row(3, 0, 0.01)];
+    expect(ids(simplifyTrack(rows, { tolerance: 10 }))).toEqual([1, 3]);
+  });
+
+  it('keeps the arrival and departure of a stop on a straight line', () => {
+    const rows = [
+      row(1, 0, 0),
+      row(2, 0, 0.005, 2),
+      row(3, 0, 0.01, 4, 0),
+      row(4, 0, 0.01, 8, 0),
+      row(5, 0, 0.01, 14, 0),
+      row(6, 0, 0.015, 16),
+      row(7, 0, 0.02, 18),
+    ];
+
+    expect(ids(simplifyTrack(rows, { tolerance: 100 }))).toEqual([1, 3, 5, 7]);
+  });
+});
@@ -0,0 +1,140 @@
+// Douglas-Peucker simplification and point budgets for history responses
+
+import { EARTH_RADIUS_METERS, toGeoPoint } from './geo'
+import { detectStops } from './stops'
+import { toTrackPoints, TrackingRow } from './track'
+
+export interface SimplifyOptions {
+  tolerance?: number // metres, points closer than this to the simplified line are dropped
+  maxPoints?: number // upper bound on the number of returned points
+}
+
+export const MAX_SIMPLIFY_TOLERANCE = 10000
+export const MIN_MAX_POINTS = 2
+
+// Parse `simplify` and `maxPoints` query values, returning an error message when invalid
+export const parseSimplifyOptions = (
+  simplify?: string,
+  maxPoints?: string
+): { options: SimplifyOptions; error?: string } => {
+  const options: SimplifyOptions = {}
+
+  if (simplify !== undefined && simplify !== '') {
+    const tolerance = Number(simplify)
+    if (!Number.isFinite(tolerance) || tolerance <= 0 || tolerance > MAX_SIMPLIFY_TOLERANCE) {
+      return { options, error: `simplify must be a tolerance in metres between 0 and ${MAX_SIMPLIFY_TOLERANCE}` }
+    }
+    options.tolerance = tolerance
+  }
+
+  if (maxPoints !== undefined && maxPoints !== '') {
+    const budget = Number(maxPoints)
+    if (!Number.isInteger(budget) || budget < MIN_MAX_POINTS) {
+      return { options, error: `maxPoints must be an integer of at least ${MIN_MAX_POINTS}` }
+    }
+    options.maxPoints = budget
+  }
+
+  return { options }
+}
+
+export const isSimplifyRequested = (options: SimplifyOptions): boolean =>
+  options.tolerance !== undefined || options.maxPoints !== undefined
+
+interface Planar {
+  x: number
+  y: number
+}
+
+// Distance in metres from p to the segment a-b on a local flat projection
+const segmentDistance = (p: Planar, a: Planar, b: Planar): number => {
+  const dx = b.x - a.x
+  const dy = b.y - a.y
+  const lengthSquared = dx * dx + dy * dy
+  const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSquared))
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy))
+}
+
+/**
+ * Rank every point by the Douglas-Peucker distance at which it becomes part of
+ * the simplified line. The first/last points rank highest, followed by the
+ * pinned stop boundaries, so a tight point budget drops those last.
+ */
+const rankPoints = (planar: Planar[], pinned: Set<number>): number[] => {
+  const rank = new Array<number>(planar.length).fill(0)
+  if (planar.length === 0) return rank
+
+  pinned.forEach(index => (rank[index] = Number.MAX_VALUE))
+  rank[0] = Infinity
+  rank[planar.length - 1] = Infinity
+
+  // Iterative to stay safe on long tracks. A point never ranks above the split
+  // that created its segment, so filtering by rank reproduces Douglas-Peucker.
+  const stack: [number, number, number][] = [[0, planar.length - 1, Infinity]]
+  while (stack.length > 0) {
+    const [start, end, segmentRank] = stack.pop()!
+    if (end - start < 2) continue
+
+    let farthest = -1
+    let farthestDistance = -1
+    for (let i = start + 1; i < end; i++) {
+      const distance = segmentDistance(planar[i], planar[start], planar[end])
+      if (distance > farthestDistance) {
+        farthest = i
+        farthestDistance = distance
+      }
+    }
+
+    const splitRank = Math.min(farthestDistance, segmentRank)
+    rank[farthest] = Math.max(rank[farthest], splitRank)
+    stack.push([start, farthest, splitRank], [farthest, end, splitRank])
+  }
+
+  return rank
+}
+
+/**
+ * Reduce rows (ordered by time) to those needed to draw the track within the
+ * given tolerance and point budget. Rows without usable coordinates are dropped.
+ */
+export const simplifyTrack = <T extends TrackingRow>(rows: T[], options: SimplifyOptions): T[] => {
+  const usable = rows.filter(row => toGeoPoint(row) !== null)
+  const points = toTrackPoints(usable)
+  if (points.length <= 2) return usable
+
+  const originLat = (points[0].lat * Math.PI) / 180
+  const planar = points.map(point => ({
+    x: ((point.long * Math.PI) / 180) * Math.cos(originLat) * EARTH_RADIUS_METERS,
+    y: ((point.lat * Math.PI) / 180) * EARTH_RADIUS_METERS
+  }))
+
+  // Keep where the device arrived at and departed from each stop
+  const pinned = new Set<number>()
+  const indexById = new Map(points.map((point, index) => [point.id, index]))
+  for (const stop of detectStops(points)) {
+    let index = indexById.get(stop.id)
+    if (index === undefined) continue
+    pinned.add(index)
+    while (index + 1 < points.length && points[index + 1].trackedAt <= stop.departedAt) index++
+    pinned.add(index)
+  }
+
+  const rank = rankPoints(planar, pinned)
+  let kept = points.map((_, index) => index)
+
+  if (options.tolerance !== undefined) {
+    const tolerance = options.tolerance
+    kept = kept.filter(index => rank[index] > tolerance)
+  }
+
+  if (options.maxPoints !== undefined && kept.length > options.maxPoints) {
+    const budget = new Set(
+      [...kept]
+        .sort((a, b) => (rank[a] === rank[b] ? a - b : rank[b] > rank[a] ? 1 : -1))
+        .slice(0, options.maxPoints)
+    )
+    kept = kept.filter(index => budget.has(index))
+  }
+
+  return kept.map(index => usable[index])
+}
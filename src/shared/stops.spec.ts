@@ -0,0 +1,90 @@
+import { detectStops } from './stops';
+import { TrackPoint } from './track';
+
+const START = Date.UTC(2026, 0, 1, 8, 0, 0);
+
+const point = (
+  id: number,
+  minutes: number,
+  lat: number,
+  long: number,
+  speed: number | null = 0,
+): TrackPoint => ({
+  id,
+  lat,
+  long,
+  speed,
+  trackedAt: new Date(START + minutes * 60 * 1000),
+});
+
+describe('detectStops', () => {
+  it('reports a halt between drives with its centroid and dwell', () => {
+    const stops = detectStops([
+      point(1, 0, 12.96, 77.59, 40),
+      point(2, 2, 12.97, 77.6, 0),
+      point(3, 5, 12.9701, 77.6, 0),
+      point(4, 8, 12.97, 77.6001, 0),
+      point(5, 10, 12.9699, 77.6, 1),
+      point(6, 12, 12.98, 77.61, 45),
+    ]);
+
+    expect(stops).toHaveLength(1);
+    expect(stops[0]).toMatchObject({
+      id: 2,
+      arrivedAt: new Date(START + 2 * 60 * 1000),
+      departedAt: new Date(START + 10 * 60 * 1000),
+      dwellSeconds: 480,
+      pointCount: 4,
+    });
+    expect(stops[0].lat).toBeCloseTo(12.97, 4);
+    expect(stops[0].long).toBeCloseTo(77.600025, 5);
+  });
+
+  it('ignores halts shorter than the minimum dwell', () => {
+    const stops = detectStops([
+      point(1, 0, 12.97, 77.6, 0),
+      point(2, 2, 12.97, 77.6, 0),
+      point(3, 3, 12.98, 77.61, 40),
+    ]);
+
+    expect(stops).toEqual([]);
+  });
+
+  it('starts a new stop when a fix drifts out of the radius', () => {
+    const stops = detectStops([
+      point(1, 0, 12.97, 77.6),
+      point(2, 6, 12.97, 77.6),
+      // About 110 m north, still reported as stationary
+      point(3, 7, 12.971, 77.6),
+      point(4, 13, 12.971, 77.6),
+    ]);
+
+    expect(stops.map((stop) => [stop.id, stop.pointCount])).toEqual([
+      [1, 2],
+      [3, 2],
+    ]);
+  });
+
+  it('keeps a stop going across a reporting gap', () => {
+    const stops = detectStops([
+      point(1, 0, 12.97, 77.6),
+      point(2, 90, 12.97, 77.6),
+    ]);
+
+    expect(stops).toHaveLength(1);
+    expect(stops[0].dwellSeconds).toBe(90 * 60);
+  });
+
+  it('falls back to the implied speed when none is reported', () => {
+    const stops = detectStops([
+      point(1, 0, 12.97, 77.6, null),
+      point(2, 5, 12.97, 77.6, null),
+      // 1.1 km in one minute
+      point(3, 6, 12.98, 77.6, null),
+    ]);
+
+    expect(stops.map((stop) => stop.departedAt)).toEqual([
+      new Date(START + 5 * 60 * 1000),
+    ]);
+  });
+});
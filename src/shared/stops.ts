@@ -0,0 +1,98 @@
+// Detects places where a device stayed put for a while
+
+import { GeoPoint, haversineDistance } from './geo'
+import { impliedSpeed, TrackPoint } from './track'
+
+export interface StopDetectionOptions {
+  maxStopSpeed: number // km/h at or below which the device counts as stationary
+  radius: number // metres a fix may drift from the stop centroid
+  minDwellSeconds: number // shorter halts are not reported
+}
+
+export const DEFAULT_STOP_OPTIONS: StopDetectionOptions = {
+  maxStopSpeed: 3,
+  radius: 50,
+  minDwellSeconds: 5 * 60
+}
+
+export interface Stop {
+  id: number // tracking id of the first point of the stop
+  lat: number // centroid
+  long: number // centroid
+  arrivedAt: Date
+  departedAt: Date
+  dwellSeconds: number
+  pointCount: number
+}
+
+const isStationary = (
+  previous: TrackPoint | undefined,
+  point: TrackPoint,
+  options: StopDetectionOptions
+): boolean => {
+  const speed = point.speed ?? (previous ? impliedSpeed(previous, point) : 0)
+  return speed === null || speed <= options.maxStopSpeed
+}
+
+/**
+ * Find stops in points ordered by time. Consecutive stationary fixes within
+ * `radius` of their running centroid form one stop; a reporting gap does not
+ * end a stop as long as the next fix is still in place (parked trackers often
+ * go quiet).
+ */
+export const detectStops = (
+  points: TrackPoint[],
+  overrides: Partial<StopDetectionOptions> = {}
+): Stop[] => {
+  const options = { ...DEFAULT_STOP_OPTIONS, ...overrides }
+  const stops: Stop[] = []
+  let cluster: TrackPoint[] = []
+  let sum: GeoPoint = { lat: 0, long: 0 } // running coordinate sum of the cluster
+
+  const centroid = (): GeoPoint => ({
+    lat: sum.lat / cluster.length,
+    long: sum.long / cluster.length
+  })
+
+  const close = () => {
+    if (cluster.length >= 2) {
+      const first = cluster[0]
+      const last = cluster[cluster.length - 1]
+      const dwellSeconds = (last.trackedAt.getTime() - first.trackedAt.getTime()) / 1000
+
+      if (dwellSeconds >= options.minDwellSeconds) {
+        const center = centroid()
+        stops.push({
+          id: first.id,
+          lat: center.lat,
+          long: center.long,
+          arrivedAt: first.trackedAt,
+          departedAt: last.trackedAt,
+          dwellSeconds: Math.round(dwellSeconds),
+          pointCount: cluster.length
+        })
+      }
+    }
+    cluster = []
+    sum = { lat: 0, long: 0 }
+  }
+
+  for (let i = 0; i < points.length; i++) {
+    const point = points[i]
+
+    if (!isStationary(points[i - 1], point, options)) {
+      close()
+      continue
+    }
+
+    if (cluster.length > 0 && haversineDistance(centroid(), point) > options.radius) {
+      close()
+    }
+
+    cluster.push(point)
+    sum = { lat: sum.lat + point.lat, long: sum.long + point.long }
+  }
+
+  close()
+  return stops
+}
@@ -0,0 +1,92 @@
+// Numeric telemetry reported with every fix: units, valid ranges and parsing
+// of request values that may arrive as numbers or numeric strings
+
+export interface TelemetryRange {
+  unit: string
+  min?: number
+  max?: number
+  integer?: boolean
+}
+
+export const TELEMETRY_RANGES = {
+  lat: { unit: 'degrees', min: -90, max: 90 },
+  long: { unit: 'degrees', min: -180, max: 180 },
+  speed: { unit: 'km/h', min: 0, max: 500 },
+  course: { unit: 'degrees from true north', min: 0, max: 360 },
+  altitude: { unit: 'metres above sea level', min: -500, max: 20000 },
+  level: { unit: 'battery percent', min: 0, max: 100 },
+  weight: { unit: 'kg', min: 0, max: 100000 },
+  noOfSatellites: { unit: 'satellites', min: 0, max: 64, integer: true },
+  compress: { unit: 'raw sensor reading' }
+} satisfies Record<string, TelemetryRange>
+
+export type TelemetryField = keyof typeof TELEMETRY_RANGES
+
+export type TelemetryInput = Partial<Record<TelemetryField, string | number | null>>
+
+export interface Telemetry {
+  lat: number
+  long: number
+  speed: number | null
+  course: number | null
+  altitude: number | null
+  level: number | null
+  weight: number | null
+  noOfSatellites: number | null
+  compress: number | null
+}
+
+const REQUIRED_FIELDS: TelemetryField[] = ['lat', 'long']
+
+const NUMERIC = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/
+
+// Convert one value, returning an error message when it is not a number in range
+export const parseTelemetryValue = (
+  field: TelemetryField,
+  value: string | number | null | undefined
+): { value: number | null; error?: string } => {
+  if (value === null || value === undefined || value === '') return { value: null }
+
+  const text = typeof value === 'string' ? value.trim() : null
+  if (text !== null && !NUMERIC.test(text)) {
+    return { value: null, error: `${field} must be a number` }
+  }
+
+  const parsed = text !== null ? Number(text) : value
+  const range: TelemetryRange = TELEMETRY_RANGES[field]
+
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    return { value: null, error: `${field} must be a number` }
+  }
+  if (range.integer && !Number.isInteger(parsed)) {
+    return { value: null, error: `${field} must be an integer` }
+  }
+  if ((range.min !== undefined && parsed < range.min) || (range.max !== undefined && parsed > range.max)) {
+    return { value: null, error: `${field} must be between ${range.min} and ${range.max} (${range.unit})` }
+  }
+
+  return { value: parsed }
+}
+
+/**
+ * Validate and convert the telemetry of an incoming fix. `lat` and `long` are
+ * required; every error is collected so clients can fix them in one go.
+ */
+export const parseTelemetry = (input: TelemetryInput): { telemetry?: Telemetry; errors: string[] } => {
+  const errors: string[] = []
+  const values = {} as Record<TelemetryField, number | null>
+
+  for (const field of Object.keys(TELEMETRY_RANGES) as TelemetryField[]) {
+    const { value, error } = parseTelemetryValue(field, input[field])
+    if (error) {
+      errors.push(error)
+    } else if (value === null && REQUIRED_FIELDS.includes(field)) {
+      errors.push(`${field} is required`)
+    }
+    values[field] = value
+  }
+
+  if (errors.length > 0) return { errors }
+
+  return { telemetry: values as Telemetry, errors }
+}
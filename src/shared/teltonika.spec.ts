@@ -0,0 +1,94 @@
+import {
+  decodeTeltonikaImei,
+  decodeTeltonikaPacket,
+  teltonikaAck,
+} from './teltonika';
+
+const hex = (value: string) => Buffer.from(value, 'hex');
+
+// Codec 8 examples from the Teltonika protocol documentation
+const SINGLE_RECORD = hex(
+  '000000000000003608010000016B40D8EA30010000000000000000000000000000000105021503010101425E0F01F10000601A014E0000000000000000010000C7CF',
+);
+const TWO_RECORDS = hex(
+  '000000000000004308020000016B40D57B480100000000000000000000000000000001010101000000000000016B40D5C198010000000000000000000000000000000101010101000000020000252C',
+);
+// Panic record with a position fix, ignition on and battery at 87%
+const PANIC_WITH_FIX = hex(
+  '00000000000000280801000001A1539A8D00022E3FFF1007BB4F200398005A09002A000302EF0171570142313800000100006274',
+);
+
+describe('Teltonika decoder', () => {
+  it('reads the IMEI handshake', () => {
+    expect(
+      decodeTeltonikaImei(hex('000F333536333037303432343431303133')),
+    ).toEqual({
+      imei: '356307042441013',
+      consumed: 17,
+    });
+    expect(decodeTeltonikaImei(hex('000F3335'))).toBeNull();
+  });
+
+  it('decodes a record and its I/O elements', () => {
+    const result = decodeTeltonikaPacket(SINGLE_RECORD);
+
+    expect(result?.consumed).toBe(SINGLE_RECORD.length);
+    expect(result?.records).toEqual([
+      {
+        timestamp: new Date('2019-06-10T10:04:46Z'),
+        priority: 1,
+        lat: 0,
+        long: 0,
+        altitude: 0,
+        angle: 0,
+        satellites: 0,
+        speed: 0,
+        eventId: 1,
+        io: { 1: 1, 21: 3, 66: 24079, 78: 0, 241: 24602 },
+        valid: false,
+        panic: false,
+      },
+    ]);
+  });
+
+  it('decodes every record of a packet', () => {
+    const records = decodeTeltonikaPacket(TWO_RECORDS)?.records ?? [];
+
+    expect(records.map((record) => record.timestamp)).toEqual([
+      new Date('2019-06-10T10:01:01Z'),
+      new Date('2019-06-10T10:01:19Z'),
+    ]);
+    expect(teltonikaAck(records.length)).toEqual(hex('00000002'));
+  });
+
+  it('decodes position, speed and panic priority', () => {
+    const [record] = decodeTeltonikaPacket(PANIC_WITH_FIX)?.records ?? [];
+
+    expect(record).toMatchObject({
+      timestamp: new Date('2026-10-19T10:00:00Z'),
+      lat: 12.9716,
+      long: 77.5946,
+      altitude: 920,
+      angle: 90,
+      satellites: 9,
+      speed: 42,
+      io: { 239: 1, 113: 87, 66: 12600 },
+      valid: true,
+      panic: true,
+    });
+  });
+
+  it('waits for the rest of a packet split across reads', () => {
+    expect(decodeTeltonikaPacket(SINGLE_RECORD.subarray(0, 30))).toBeNull();
+  });
+
+  it('rejects packets with a bad CRC', () => {
+    const corrupted = Buffer.from(SINGLE_RECORD);
+    corrupted[20] ^= 0xff;
+
+    expect(decodeTeltonikaPacket(corrupted)).toEqual({
+      consumed: SINGLE_RECORD.length,
+      error: 'CRC mismatch',
+    });
+  });
+});
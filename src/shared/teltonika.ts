@@ -0,0 +1,152 @@
+// Teltonika Codec 8 over TCP. A connection opens with the IMEI (2-byte length
+// then ASCII digits), answered with 0x01 to accept it. Each AVL data packet
+// is then answered with the number of records accepted as a 4-byte integer.
+
+export const TELTONIKA_CODEC_8 = 0x08
+
+// I/O element ids read into the stored fix
+export const TELTONIKA_IO = {
+  gsmSignal: 21,
+  externalVoltage: 66, // mV
+  batteryLevel: 113, // percent
+  ignition: 239
+}
+
+// Record priority the device uses for panic button presses
+const PANIC_PRIORITY = 2
+
+export interface TeltonikaRecord {
+  timestamp: Date
+  priority: number // 0 low, 1 high, 2 panic
+  lat: number
+  long: number
+  altitude: number // metres
+  angle: number // degrees from true north
+  satellites: number
+  speed: number // km/h
+  eventId: number // I/O element that triggered the record, 0 for periodic ones
+  io: Record<number, number>
+  valid: boolean // receiver had a position fix
+  panic: boolean
+}
+
+/**
+ * CRC-16/IBM (ARC) as used for AVL packets
+ */
+export const teltonikaCrc = (data: Uint8Array): number => {
+  let crc = 0
+  for (const byte of data) {
+    crc ^= byte
+    for (let bit = 0; bit < 8; bit++) crc = crc & 1 ? (crc >>> 1) ^ 0xa001 : crc >>> 1
+  }
+  return crc
+}
+
+/**
+ * Read the IMEI a connection opens with. Returns null until enough bytes have
+ * arrived; `consumed` is how many bytes it took.
+ */
+export const decodeTeltonikaImei = (buffer: Buffer): { imei?: string; consumed: number; error?: string } | null => {
+  if (buffer.length < 2) return null
+
+  const length = buffer.readUInt16BE(0)
+  if (length === 0 || length > 32) return { consumed: buffer.length, error: 'Invalid IMEI length' }
+  if (buffer.length < 2 + length) return null
+
+  const imei = buffer.subarray(2, 2 + length).toString('ascii')
+  return /^\d+$/.test(imei) ? { imei, consumed: 2 + length } : { consumed: 2 + length, error: 'IMEI is not numeric' }
+}
+
+const decodeRecord = (data: Buffer, start: number): { record: TeltonikaRecord; end: number } => {
+  let offset = start
+
+  const timestamp = new Date(Number(data.readBigUInt64BE(offset)))
+  const priority = data[offset + 8]
+  const long = data.readInt32BE(offset + 9) / 1e7
+  const lat = data.readInt32BE(offset + 13) / 1e7
+  const altitude = data.readInt16BE(offset + 17)
+  const angle = data.readUInt16BE(offset + 19)
+  const satellites = data[offset + 21]
+  const speed = data.readUInt16BE(offset + 22)
+  const eventId = data[offset + 24]
+  offset += 26 // skips the total I/O count, which the groups below repeat
+
+  const io: Record<number, number> = {}
+  for (const size of [1, 2, 4, 8]) {
+    const count = data[offset++]
+    for (let i = 0; i < count; i++) {
+      const id = data[offset]
+      io[id] = size === 8 ? Number(data.readBigInt64BE(offset + 1)) : data.readUIntBE(offset + 1, size)
+      offset += 1 + size
+    }
+  }
+
+  return {
+    record: {
+      timestamp,
+      priority,
+      lat,
+      long,
+      altitude,
+      angle,
+      satellites,
+      speed,
+      eventId,
+      io,
+      valid: satellites > 0 && (lat !== 0 || long !== 0),
+      panic: priority === PANIC_PRIORITY
+    },
+    end: offset
+  }
+}
+
+/**
+ * Decode one AVL data packet from the front of a buffer. Returns null until
+ * the whole packet has arrived; `consumed` is its length in bytes.
+ */
+export const decodeTeltonikaPacket = (
+  buffer: Buffer
+): { records?: TeltonikaRecord[]; consumed: number; error?: string } | null => {
+  if (buffer.length < 8) return null
+
+  if (buffer.readUInt32BE(0) !== 0) return { consumed: buffer.length, error: 'Missing preamble' }
+
+  const length = buffer.readUInt32BE(4)
+  const total = 8 + length + 4
+  if (buffer.length < total) return null
+
+  const data = buffer.subarray(8, 8 + length)
+  if (teltonikaCrc(data) !== buffer.readUInt32BE(8 + length)) {
+    return { consumed: total, error: 'CRC mismatch' }
+  }
+  if (data[0] !== TELTONIKA_CODEC_8) {
+    return { consumed: total, error: `Unsupported codec 0x${data[0].toString(16).padStart(2, '0')}` }
+  }
+
+  const count = data[1]
+  const records: TeltonikaRecord[] = []
+  let offset = 2
+
+  try {
+    for (let i = 0; i < count; i++) {
+      const { record, end } = decodeRecord(data, offset)
+      records.push(record)
+      offset = end
+    }
+  } catch {
+    return { consumed: total, error: 'Truncated AVL record' }
+  }
+
+  if (data[offset] !== count || offset + 1 !== data.length) {
+    return { consumed: total, error: 'Record count mismatch' }
+  }
+
+  return { records, consumed: total }
+}
+
+// Reply to an AVL data packet: how many records the server accepted
+export const teltonikaAck = (count: number): Buffer => {
+  const ack = Buffer.alloc(4)
+  ack.writeUInt32BE(count)
+  return ack
+}
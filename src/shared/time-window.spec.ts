@@ -0,0 +1,155 @@
+import {
+  isWithinDailyWindow,
+  resolveHistoryWindow,
+  zonedDay,
+  zonedDayBounds,
+  zonedStartOf,
+} from './time-window';
+
+describe('zonedDayBounds', () => {
+  it('covers a calendar day in the timezone', () => {
+    expect(zonedDayBounds('2026-01-15', 'Asia/Kolkata')).toEqual({
+      from: new Date('2026-01-14T18:30:00.000Z'),
+      to: new Date('2026-01-15T18:29:59.999Z'),
+    });
+  });
+
+  it('follows daylight saving changes', () => {
+    // New York springs forward on 8 March 2026, a 23-hour day
+    const day = zonedDayBounds('2026-03-08', 'America/New_York');
+    expect(day).toEqual({
+      from: new Date('2026-03-08T05:00:00.000Z'),
+      to: new Date('2026-03-09T03:59:59.999Z'),
+    });
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(zonedDayBounds('2026-02-30', 'UTC')).toBeNull();
+    expect(zonedDayBounds('15/01/2026', 'UTC')).toBeNull();
+  });
+});
+
+describe('resolveHistoryWindow', () => {
+  it('uses the request timezone over the profile one', () => {
+    const { window } = resolveHistoryWindow(
+      { date: '2026-01-15', tz: 'UTC' },
+      'Asia/Kolkata',
+    );
+    expect(window).toEqual({
+      from: new Date('2026-01-15T00:00:00.000Z'),
+      to: new Date('2026-01-15T23:59:59.999Z'),
+      timezone: 'UTC',
+    });
+  });
+
+  it('reads from/to without an offset in the timezone', () => {
+    const { window } = resolveHistoryWindow(
+      { from: '2026-01-15T09:00', to: '2026-01-16' },
+      'Asia/Kolkata',
+    );
+    expect(window).toEqual({
+      from: new Date('2026-01-15T03:30:00.000Z'),
+      to: new Date('2026-01-16T18:29:59.999Z'),
+      timezone: 'Asia/Kolkata',
+    });
+  });
+
+  it('keeps explicit offsets as given', () => {
+    const { window } = resolveHistoryWindow({
+      from: '2026-01-15T09:00:00Z',
+      tz: 'Asia/Kolkata',
+    });
+    expect(window?.from).toEqual(new Date('2026-01-15T09:00:00.000Z'));
+    expect(window?.to).toBeUndefined();
+  });
+
+  it('reports invalid queries', () => {
+    expect(resolveHistoryWindow({ tz: 'Mars/Olympus' }).error).toBe(
+      'Unknown timezone: Mars/Olympus',
+    );
+    expect(
+      resolveHistoryWindow({ date: '2026-01-15', from: '2026-01-14' }).error,
+    ).toBe('Use either date or from/to, not both');
+    expect(
+      resolveHistoryWindow({ from: '2026-01-16', to: '2026-01-15' }).error,
+    ).toBe('from must be before to');
+    expect(resolveHistoryWindow({ date: '2026-13-01' }).error).toBe(
+      'Invalid date format. Use YYYY-MM-DD',
+    );
+  });
+});
+
+describe('zonedDay', () => {
+  it('returns the local calendar date', () => {
+    const instant = new Date('2026-01-15T20:00:00Z');
+    expect(zonedDay(instant, 'Asia/Kolkata')).toEqual(
+      new Date('2026-01-16T00:00:00Z'),
+    );
+    expect(zonedDay(instant, 'America/New_York')).toEqual(
+      new Date('2026-01-15T00:00:00Z'),
+    );
+  });
+});
+
+describe('zonedStartOf', () => {
+  const instant = new Date('2026-01-15T20:10:00Z');
+
+  it('starts the day at local midnight', () => {
+    // The Kolkata day of 20:10 UTC is 16 January, which starts at 18:30 UTC
+    expect(zonedStartOf(instant, 'day', 'Asia/Kolkata')).toEqual(
+      new Date('2026-01-15T18:30:00Z'),
+    );
+    expect(zonedStartOf(instant, 'day', 'UTC')).toEqual(
+      new Date('2026-01-15T00:00:00Z'),
+    );
+  });
+
+  it('starts hours on the local hour', () => {
+    expect(zonedStartOf(instant, 'hour', 'Asia/Kolkata')).toEqual(
+      new Date('2026-01-15T19:30:00Z'),
+    );
+    expect(zonedStartOf(instant, 'hour', 'UTC')).toEqual(
+      new Date('2026-01-15T20:00:00Z'),
+    );
+  });
+
+  it('matches the bounds of a date query', () => {
+    const day = zonedDayBounds('2026-03-08', 'America/New_York');
+    expect(
+      zonedStartOf(new Date('2026-03-08T20:00:00Z'), 'day', 'America/New_York'),
+    ).toEqual(day?.from);
+  });
+});
+
+describe('isWithinDailyWindow', () => {
+  const at = (iso: string) => new Date(iso);
+
+  it('checks the clock time in the timezone', () => {
+    // 03:30 UTC is 09:00 in Kolkata
+    expect(
+      isWithinDailyWindow(
+        at('2026-01-15T03:30:00Z'),
+        '09:00',
+        '18:00',
+        'Asia/Kolkata',
+      ),
+    ).toBe(true);
+    expect(
+      isWithinDailyWindow(
+        at('2026-01-15T03:29:00Z'),
+        '09:00',
+        '18:00',
+        'Asia/Kolkata',
+      ),
+    ).toBe(false);
+  });
+
+  it('handles windows running overnight', () => {
+    expect(
+      isWithinDailyWindow(at('2026-01-15T23:30:00Z'), '22:00', '06:00', 'UTC'),
+    ).toBe(true);
+    expect(
+      isWithinDailyWindow(at('2026-01-15T12:00:00Z'), '22:00', '06:00', 'UTC'),
+    ).toBe(false);
+  });
+});
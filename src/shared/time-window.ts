@@ -0,0 +1,201 @@
+// Timezone-aware query windows shared by the Nest API and the Lambda handlers,
+// so both resolve `date`, `from`, `to` and `tz` to exactly the same instants
+
+// Used when neither the request nor the user's profile names a timezone
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata'
+
+export interface HistoryWindowQuery {
+  date?: string // YYYY-MM-DD, a whole day in `tz`
+  from?: string // ISO date or date-time; without an offset it is read in `tz`
+  to?: string
+  tz?: string // IANA timezone name
+}
+
+export interface HistoryWindow {
+  from?: Date
+  to?: Date
+  timezone: string
+}
+
+const DATE_ONLY = /^(\d{4})-(\d{2})-(\d{2})$/
+const LOCAL_DATE_TIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?$/
+
+export const isValidTimeZone = (timezone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+// Offset in milliseconds of a timezone from UTC at the given instant
+const timeZoneOffset = (instant: number, timezone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit'
+  }).formatToParts(new Date(instant))
+
+  const get = (type: string) => Number(parts.find(part => part.type === type)?.value)
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+// UTC instant of a wall-clock time in a timezone
+export const zonedTimeToUtc = (
+  fields: { year: number; month: number; day: number; hour?: number; minute?: number; second?: number; ms?: number },
+  timezone: string
+): Date => {
+  const wallClock = Date.UTC(
+    fields.year,
+    fields.month - 1,
+    fields.day,
+    fields.hour ?? 0,
+    fields.minute ?? 0,
+    fields.second ?? 0,
+    fields.ms ?? 0
+  )
+
+  // Two passes settle the offset around DST transitions
+  let instant = wallClock - timeZoneOffset(wallClock, timezone)
+  const corrected = wallClock - timeZoneOffset(instant, timezone)
+  if (corrected !== instant) instant = corrected
+
+  return new Date(instant)
+}
+
+// [start, end] of a calendar day in a timezone, end inclusive to the millisecond
+export const zonedDayBounds = (date: string, timezone: string): { from: Date; to: Date } | null => {
+  const match = DATE_ONLY.exec(date)
+  if (!match) return null
+
+  const [year, month, day] = match.slice(1, 4).map(Number)
+  const probe = new Date(Date.UTC(year, month - 1, day))
+  if (probe.getUTCMonth() !== month - 1 || probe.getUTCDate() !== day) return null
+
+  const next = new Date(Date.UTC(year, month - 1, day + 1))
+  const from = zonedTimeToUtc({ year, month, day }, timezone)
+  const nextStart = zonedTimeToUtc(
+    { year: next.getUTCFullYear(), month: next.getUTCMonth() + 1, day: next.getUTCDate() },
+    timezone
+  )
+
+  return { from, to: new Date(nextStart.getTime() - 1) }
+}
+
+// Parse a range bound; date-only values cover the whole day in `timezone`
+const parseBound = (value: string, timezone: string, edge: 'from' | 'to'): Date | null => {
+  const day = zonedDayBounds(value, timezone)
+  if (day) return edge === 'from' ? day.from : day.to
+  if (DATE_ONLY.test(value)) return null
+
+  const local = LOCAL_DATE_TIME.exec(value)
+  if (local) {
+    const [year, month, dayOfMonth, hour, minute, second] = local.slice(1, 7).map(part => Number(part ?? 0))
+    const ms = Number((local[7] ?? '0').padEnd(3, '0'))
+    return zonedTimeToUtc({ year, month, day: dayOfMonth, hour, minute, second, ms }, timezone)
+  }
+
+  const parsed = new Date(value)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+/**
+ * Resolve the query parameters of a history-style endpoint to a UTC window.
+ * `date` and `from`/`to` are mutually exclusive; with neither the window is open.
+ */
+export const resolveHistoryWindow = (
+  query: HistoryWindowQuery,
+  fallbackTimezone?: string | null
+): { window?: HistoryWindow; error?: string } => {
+  const timezone = query.tz || fallbackTimezone || DEFAULT_TIMEZONE
+  if (!isValidTimeZone(timezone)) {
+    return { error: `Unknown timezone: ${timezone}` }
+  }
+
+  if (query.date && (query.from || query.to)) {
+    return { error: 'Use either date or from/to, not both' }
+  }
+
+  if (query.date) {
+    const day = zonedDayBounds(query.date, timezone)
+    if (!day) {
+      return { error: 'Invalid date format. Use YYYY-MM-DD' }
+    }
+    return { window: { ...day, timezone } }
+  }
+
+  const window: HistoryWindow = { timezone }
+
+  if (query.from) {
+    const from = parseBound(query.from, timezone, 'from')
+    if (!from) return { error: 'Invalid from date' }
+    window.from = from
+  }
+
+  if (query.to) {
+    const to = parseBound(query.to, timezone, 'to')
+    if (!to) return { error: 'Invalid to date' }
+    window.to = to
+  }
+
+  if (window.from && window.to && window.from > window.to) {
+    return { error: 'from must be before to' }
+  }
+
+  return { window }
+}
+
+// Calendar day an instant falls on in a timezone, as UTC midnight of that date
+export const zonedDay = (date: Date, timezone: string): Date => {
+  const local = new Date(date.getTime() + timeZoneOffset(date.getTime(), timezone))
+  return new Date(Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()))
+}
+
+// Instant the local hour or day an instant falls in starts in a timezone
+export const zonedStartOf = (date: Date, unit: 'hour' | 'day', timezone: string): Date => {
+  const local = new Date(date.getTime() + timeZoneOffset(date.getTime(), timezone))
+  return zonedTimeToUtc(
+    {
+      year: local.getUTCFullYear(),
+      month: local.getUTCMonth() + 1,
+      day: local.getUTCDate(),
+      hour: unit === 'hour' ? local.getUTCHours() : 0
+    },
+    timezone
+  )
+}
+
+const CLOCK_TIME = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+// Minutes after midnight of an `HH:mm` clock time
+export const parseClockTime = (value: string): number | null => {
+  const match = CLOCK_TIME.exec(value)
+  return match ? Number(match[1]) * 60 + Number(match[2]) : null
+}
+
+// Minutes after local midnight of an instant in a timezone
+export const zonedMinutesOfDay = (date: Date, timezone: string): number => {
+  const local = new Date(date.getTime() + timeZoneOffset(date.getTime(), timezone))
+  return local.getUTCHours() * 60 + local.getUTCMinutes()
+}
+
+/**
+ * Whether an instant falls in the daily `from`-`to` clock window in a timezone.
+ * A window whose end is before its start runs overnight.
+ */
+export const isWithinDailyWindow = (date: Date, from: string, to: string, timezone: string): boolean => {
+  const start = parseClockTime(from)
+  const end = parseClockTime(to)
+  if (start === null || end === null) return true
+
+  const minutes = zonedMinutesOfDay(date, timezone)
+  return start <= end ? minutes >= start && minutes < end : minutes >= start || minutes < end
+}
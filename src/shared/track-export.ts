@@ -0,0 +1,147 @@
+// Serialisers for exporting tracking history as GPX, KML, GeoJSON or CSV
+
+import { parseCoordinate } from './geo'
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson' | 'csv'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['gpx', 'kml', 'geojson', 'csv']
+
+export interface ExportRow {
+  lat: number | null
+  long: number | null
+  altitude?: number | null // metres
+  speed?: number | null // km/h
+  noOfSatellites?: number | null
+  trackedAt: Date
+}
+
+export interface ExportWriter {
+  contentType: string
+  extension: string
+  header: (deviceCode: string) => string
+  row: (row: ExportRow, index: number) => string
+  footer: () => string
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+
+const escapeCsv = (value: string): string =>
+  /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+
+const numeric = (value: string | number | null | undefined): number | null => parseCoordinate(value)
+
+const gpx: ExportWriter = {
+  contentType: 'application/gpx+xml',
+  extension: 'gpx',
+  header: deviceCode =>
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<gpx version="1.1" creator="Device Tracker API" xmlns="http://www.topografix.com/GPX/1/1">\n' +
+    `<trk><name>${escapeXml(deviceCode)}</name><trkseg>\n`,
+  row: row => {
+    const altitude = numeric(row.altitude)
+    const satellites = numeric(row.noOfSatellites)
+    const speed = numeric(row.speed)
+
+    return (
+      `<trkpt lat="${numeric(row.lat)}" lon="${numeric(row.long)}">` +
+      (altitude !== null ? `<ele>${altitude}</ele>` : '') +
+      `<time>${row.trackedAt.toISOString()}</time>` +
+      (satellites !== null ? `<sat>${Math.round(satellites)}</sat>` : '') +
+      // GPX 1.1 has no core speed element; metres per second by convention
+      (speed !== null ? `<extensions><speed>${Math.round((speed / 3.6) * 100) / 100}</speed></extensions>` : '') +
+      '</trkpt>\n'
+    )
+  },
+  footer: () => '</trkseg></trk>\n</gpx>\n'
+}
+
+const kml: ExportWriter = {
+  contentType: 'application/vnd.google-earth.kml+xml',
+  extension: 'kml',
+  header: deviceCode =>
+    '<?xml version="1.0" encoding="UTF-8"?>\n' +
+    '<kml xmlns="http://www.opengis.net/kml/2.2">\n' +
+    `<Document><name>${escapeXml(deviceCode)}</name><Folder><name>Track</name>\n`,
+  row: (row, index) => {
+    const altitude = numeric(row.altitude) ?? 0
+    const data = [
+      ['speed', numeric(row.speed)],
+      ['satellites', numeric(row.noOfSatellites)]
+    ]
+      .filter(([, value]) => value !== null)
+      .map(([name, value]) => `<Data name="${name}"><value>${value}</value></Data>`)
+      .join('')
+
+    return (
+      `<Placemark><name>${index + 1}</name>` +
+      `<TimeStamp><when>${row.trackedAt.toISOString()}</when></TimeStamp>` +
+      (data ? `<ExtendedData>${data}</ExtendedData>` : '') +
+      `<Point><coordinates>${numeric(row.long)},${numeric(row.lat)},${altitude}</coordinates></Point>` +
+      '</Placemark>\n'
+    )
+  },
+  footer: () => '</Folder></Document>\n</kml>\n'
+}
+
+const geojson: ExportWriter = {
+  contentType: 'application/geo+json',
+  extension: 'geojson',
+  header: () => '{"type":"FeatureCollection","features":[\n',
+  row: (row, index) => {
+    const altitude = numeric(row.altitude)
+    const coordinates = [numeric(row.long), numeric(row.lat)]
+    if (altitude !== null) coordinates.push(altitude)
+
+    const feature = {
+      type: 'Feature',
+      geometry: { type: 'Point', coordinates },
+      properties: {
+        trackedAt: row.trackedAt.toISOString(),
+        altitude,
+        speed: numeric(row.speed),
+        satellites: numeric(row.noOfSatellites)
+      }
+    }
+
+    return `${index > 0 ? ',' : ''}${JSON.stringify(feature)}\n`
+  },
+  footer: () => ']}\n'
+}
+
+const csv: ExportWriter = {
+  contentType: 'text/csv; charset=utf-8',
+  extension: 'csv',
+  header: () => 'trackedAt,lat,long,altitude,speed,satellites\n',
+  row: row =>
+    [row.trackedAt.toISOString(), row.lat, row.long, row.altitude, row.speed, row.noOfSatellites]
+      .map(value => escapeCsv(value === null || value === undefined ? '' : String(value)))
+      .join(',') + '\n',
+  footer: () => ''
+}
+
+const writers: Record<ExportFormat, ExportWriter> = { gpx, kml, geojson, csv }
+
+export const isExportFormat = (value: string | undefined): value is ExportFormat =>
+  EXPORT_FORMATS.includes(value as ExportFormat)
+
+export const getExportWriter = (format: ExportFormat): ExportWriter => writers[format]
+
+// Download file name such as `ABC123_2025-07-01_2025-07-02.gpx`, days in `timezone`
+export const exportFileName = (
+  deviceCode: string,
+  format: ExportFormat,
+  from?: Date,
+  to?: Date,
+  timezone = 'UTC'
+): string => {
+  const formatter = new Intl.DateTimeFormat('en-CA', { timeZone: timezone, year: 'numeric', month: '2-digit', day: '2-digit' })
+  const day = (date?: Date) => (date ? formatter.format(date) : 'all')
+  const safeCode = deviceCode.replace(/[^A-Za-z0-9_-]/g, '_')
+  return `${safeCode}_${day(from)}_${day(to)}.${writers[format].extension}`
+}
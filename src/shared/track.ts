@@ -0,0 +1,54 @@
+// Parsed tracking points used by the trip/stop detectors and other reports
+
+import { haversineDistance, parseCoordinate, toGeoPoint } from './geo'
+
+export interface TrackPoint {
+  id: number
+  lat: number
+  long: number
+  speed: number | null // km/h as reported by the tracker
+  trackedAt: Date
+}
+
+export interface TrackingRow {
+  id: number
+  lat: number | null
+  long: number | null
+  speed?: number | null
+  trackedAt: Date
+}
+
+// Convert stored rows to points, dropping rows without usable coordinates
+export const toTrackPoints = (rows: TrackingRow[]): TrackPoint[] => {
+  const points: TrackPoint[] = []
+
+  for (const row of rows) {
+    const point = toGeoPoint(row)
+    if (!point) continue
+
+    points.push({
+      id: row.id,
+      ...point,
+      speed: parseCoordinate(row.speed),
+      trackedAt: row.trackedAt
+    })
+  }
+
+  return points
+}
+
+// Total length of a path in metres
+export const pathDistance = (points: TrackPoint[]): number => {
+  let distance = 0
+  for (let i = 1; i < points.length; i++) {
+    distance += haversineDistance(points[i - 1], points[i])
+  }
+  return distance
+}
+
+// Speed in km/h implied by two consecutive fixes, null when time does not advance
+export const impliedSpeed = (from: TrackPoint, to: TrackPoint): number | null => {
+  const seconds = (to.trackedAt.getTime() - from.trackedAt.getTime()) / 1000
+  if (seconds <= 0) return null
+  return (haversineDistance(from, to) / seconds) * 3.6
+}
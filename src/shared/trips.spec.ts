@@ -0,0 +1,126 @@
+import { TrackPoint } from './track';
+import { detectTrips, summarizeTrip } from './trips';
+
+const START = Date.UTC(2026, 0, 1, 8, 0, 0);
+
+const at = (minutes: number) => new Date(START + minutes * 60 * 1000);
+
+// Points along a meridian; 0.01 degrees of latitude is about 1.1 km
+const point = (
+  id: number,
+  minutes: number,
+  lat: number,
+  speed: number | null,
+): TrackPoint => ({ id, lat, long: 77.59, speed, trackedAt: at(minutes) });
+
+describe('detectTrips', () => {
+  it('splits trips at stops of at least five minutes', () => {
+    const trips = detectTrips([
+      point(1, 0, 12.9, 0),
+      point(2, 2, 12.91, 30),
+      point(3, 4, 12.92, 30),
+      point(4, 6, 12.92, 0),
+      point(5, 8, 12.92, 0),
+      point(6, 10, 12.92, 0),
+      point(7, 12, 12.93, 30),
+      point(8, 14, 12.94, 30),
+      point(9, 16, 12.94, 0),
+    ]);
+
+    expect(trips.map((trip) => [trip.id, trip.pointCount])).toEqual([
+      [1, 3],
+      [6, 3],
+    ]);
+    // The first trip ends where the device came to rest, not when it was
+    // recognised as a stop
+    expect(trips[0].endedAt).toEqual(at(4));
+    expect(trips[1].startedAt).toEqual(at(10));
+  });
+
+  it('keeps short halts inside a trip', () => {
+    const trips = detectTrips([
+      point(1, 0, 12.9, 30),
+      point(2, 2, 12.91, 30),
+      point(3, 4, 12.91, 0),
+      point(4, 6, 12.91, 0),
+      point(5, 8, 12.92, 30),
+      point(6, 10, 12.93, 30),
+    ]);
+
+    expect(trips).toHaveLength(1);
+    expect(trips[0]).toMatchObject({ id: 1, endedAt: at(10), pointCount: 6 });
+  });
+
+  it('starts the first trip at the first fix and ends the last at the last fix', () => {
+    const trips = detectTrips([
+      point(1, 0, 12.9, 30),
+      point(2, 2, 12.91, 30),
+      point(3, 4, 12.91, 0),
+      point(4, 10, 12.91, 0),
+      point(5, 12, 12.92, 30),
+      point(6, 14, 12.93, 30),
+    ]);
+
+    expect(trips).toHaveLength(2);
+    expect(trips[0]).toMatchObject({ id: 1, startedAt: at(0) });
+    expect(trips[1]).toMatchObject({ id: 4, endedAt: at(14) });
+  });
+
+  it('ends a trip at a reporting gap', () => {
+    const trips = detectTrips([
+      point(1, 0, 12.9, 30),
+      point(2, 2, 12.91, 30),
+      point(3, 20, 12.95, 30),
+      point(4, 22, 12.96, 30),
+    ]);
+
+    expect(trips.map((trip) => [trip.id, trip.endedAt])).toEqual([
+      [1, at(2)],
+      [3, at(22)],
+    ]);
+  });
+
+  it('derives movement from positions when no speed is reported', () => {
+    const trips = detectTrips([
+      point(1, 0, 12.9, null),
+      point(2, 2, 12.91, null),
+      point(3, 4, 12.92, null),
+    ]);
+
+    expect(trips).toHaveLength(1);
+    expect(trips[0].distance).toBeCloseTo(2224, -1);
+    expect(trips[0].averageSpeed).toBeCloseTo(33.4, 0);
+  });
+
+  it('drops movements shorter than the minimum trip distance', () => {
+    const trips = detectTrips([
+      point(1, 0, 12.9, 0),
+      point(2, 1, 12.9005, 10),
+      point(3, 7, 12.9005, 0),
+    ]);
+
+    expect(trips).toEqual([]);
+  });
+});
+
+describe('summarizeTrip', () => {
+  it('keeps every figure and drops the points', () => {
+    const [trip] = detectTrips([
+      point(1, 0, 12.9, 30),
+      point(2, 2, 12.91, 40),
+      point(3, 4, 12.92, 30),
+    ]);
+
+    const { points, ...figures } = trip;
+    expect(points).toHaveLength(3);
+    expect(summarizeTrip(trip)).toEqual(figures);
+    expect(summarizeTrip(trip)).toMatchObject({
+      id: 1,
+      startLat: 12.9,
+      endLat: 12.92,
+      duration: 240,
+      maxSpeed: 40,
+      pointCount: 3,
+    });
+  });
+});
@@ -0,0 +1,148 @@
+// Splits a device track into trips separated by stationary periods and gaps
+
+import { impliedSpeed, pathDistance, TrackPoint } from './track'
+
+export interface TripDetectionOptions {
+  minMovingSpeed: number // km/h at or above which the device counts as moving
+  minStopSeconds: number // stationary time that ends a trip
+  maxGapSeconds: number // silence between fixes that ends a trip
+  minTripDistance: number // metres, shorter movements are treated as jitter
+}
+
+export const DEFAULT_TRIP_OPTIONS: TripDetectionOptions = {
+  minMovingSpeed: 5,
+  minStopSeconds: 5 * 60,
+  maxGapSeconds: 10 * 60,
+  minTripDistance: 200
+}
+
+export interface Trip {
+  id: number // tracking id of the first point
+  startedAt: Date
+  endedAt: Date
+  startLat: number
+  startLong: number
+  endLat: number
+  endLong: number
+  distance: number // metres
+  duration: number // seconds
+  maxSpeed: number // km/h
+  averageSpeed: number // km/h over the whole duration
+  pointCount: number
+  points: TrackPoint[]
+}
+
+export type TripSummary = Omit<Trip, 'points'>
+
+const secondsBetween = (a: TrackPoint, b: TrackPoint): number =>
+  (b.trackedAt.getTime() - a.trackedAt.getTime()) / 1000
+
+const isMoving = (previous: TrackPoint, current: TrackPoint, options: TripDetectionOptions): boolean => {
+  const speed = current.speed ?? impliedSpeed(previous, current)
+  return speed !== null && speed >= options.minMovingSpeed
+}
+
+const buildTrip = (points: TrackPoint[], options: TripDetectionOptions): Trip | null => {
+  if (points.length < 2) return null
+
+  const first = points[0]
+  const last = points[points.length - 1]
+  const distance = pathDistance(points)
+  const duration = secondsBetween(first, last)
+
+  if (distance < options.minTripDistance || duration <= 0) return null
+
+  let maxSpeed = 0
+  for (let i = 1; i < points.length; i++) {
+    const speed = points[i].speed ?? impliedSpeed(points[i - 1], points[i]) ?? 0
+    maxSpeed = Math.max(maxSpeed, speed)
+  }
+
+  return {
+    id: first.id,
+    startedAt: first.trackedAt,
+    endedAt: last.trackedAt,
+    startLat: first.lat,
+    startLong: first.long,
+    endLat: last.lat,
+    endLong: last.long,
+    distance: Math.round(distance),
+    duration: Math.round(duration),
+    maxSpeed: Math.round(maxSpeed * 10) / 10,
+    averageSpeed: Math.round((distance / duration) * 3.6 * 10) / 10,
+    pointCount: points.length,
+    points
+  }
+}
+
+/**
+ * Group points (ordered by time) into trips. A trip starts at the last fix
+ * before movement and ends at the first fix of a stationary period that lasts
+ * at least `minStopSeconds`, or at the last fix before a reporting gap.
+ */
+export const detectTrips = (
+  points: TrackPoint[],
+  overrides: Partial<TripDetectionOptions> = {}
+): Trip[] => {
+  const options = { ...DEFAULT_TRIP_OPTIONS, ...overrides }
+  const trips: Trip[] = []
+
+  let current: TrackPoint[] | null = null
+  let stopIndex: number | null = null // index in `current` where the device came to rest
+
+  const close = () => {
+    if (!current) return
+    const trip = buildTrip(stopIndex === null ? current : current.slice(0, stopIndex + 1), options)
+    if (trip) trips.push(trip)
+    current = null
+    stopIndex = null
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const previous = points[i - 1]
+    const point = points[i]
+
+    if (secondsBetween(previous, point) > options.maxGapSeconds) {
+      close()
+      continue
+    }
+
+    if (isMoving(previous, point, options)) {
+      if (!current) {
+        current = [previous]
+      }
+      current.push(point)
+      stopIndex = null
+      continue
+    }
+
+    if (!current) continue
+
+    current.push(point)
+    if (stopIndex === null) {
+      stopIndex = current.length - 2
+    }
+
+    if (secondsBetween(current[stopIndex], point) >= options.minStopSeconds) {
+      close()
+    }
+  }
+
+  close()
+  return trips
+}
+
+export const summarizeTrip = (trip: Trip): TripSummary => ({
+  id: trip.id,
+  startedAt: trip.startedAt,
+  endedAt: trip.endedAt,
+  startLat: trip.startLat,
+  startLong: trip.startLong,
+  endLat: trip.endLat,
+  endLong: trip.endLong,
+  distance: trip.distance,
+  duration: trip.duration,
+  maxSpeed: trip.maxSpeed,
+  averageSpeed: trip.averageSpeed,
+  pointCount: trip.pointCount
+})
@@ -0,0 +1,142 @@
+// Push messages to API Gateway WebSocket connections subscribed to a device room
+
+import { ApiGatewayManagementApi, AWSError, DynamoDB } from 'aws-sdk'
+import { Logger } from './utils'
+
+// Envelope of every message pushed to WebSocket clients
+export interface DeviceMessage<Data = unknown> {
+  type: string
+  deviceCode: string
+  data: Data
+}
+
+interface ConnectionItem {
+  connectionId: string
+}
+
+// aws-sdk rejects with Error objects carrying the service error code and HTTP status
+export const isAwsError = (error: unknown): error is AWSError => error instanceof Error && 'code' in error
+
+/**
+ * Send a message to every WebSocket connection in a device room
+ */
+export async function broadcastToDevice(
+  deviceCode: string,
+  message: DeviceMessage
+): Promise<void> {
+  try {
+    const websocketEndpoint = process.env.WEBSOCKET_ENDPOINT
+    if (!websocketEndpoint) {
+      Logger.warn('WebSocket endpoint not configured')
+      return
+    }
+
+    const apiGateway = new ApiGatewayManagementApi({
+      endpoint: websocketEndpoint
+    })
+
+    const dynamodb = new DynamoDB.DocumentClient()
+    const tableName = `WebSocketConnections-${process.env.STAGE || 'dev'}`
+
+    // Find connections for this device
+    const connections = await dynamodb.query({
+      TableName: tableName,
+      IndexName: 'DeviceCodeIndex',
+      KeyConditionExpression: 'deviceCode = :deviceCode',
+      ExpressionAttributeValues: {
+        ':deviceCode': deviceCode
+      }
+    }).promise()
+
+    const items = (connections.Items ?? []) as ConnectionItem[]
+    if (items.length === 0) {
+      Logger.info('No WebSocket connections found for device', { deviceCode })
+      return
+    }
+
+    const data = JSON.stringify(message)
+
+    // Broadcast to all connected clients for this device
+    const broadcastPromises = items.map(async (connection) => {
+      try {
+        await apiGateway.postToConnection({
+          ConnectionId: connection.connectionId,
+          Data: data
+        }).promise()
+        
+        Logger.debug('Message sent to connection', {
+          connectionId: connection.connectionId,
+          deviceCode
+        })
+      } catch (error: unknown) {
+        Logger.warn('Failed to send to connection', {
+          connectionId: connection.connectionId,
+          error: error instanceof Error ? error.message : error
+        })
+        
+        // Connection is stale (410 Gone), remove it
+        if (isAwsError(error) && error.statusCode === 410) {
+          try {
+            await dynamodb.delete({
+              TableName: tableName,
+              Key: { connectionId: connection.connectionId }
+            }).promise()
+            
+            Logger.info('Removed stale WebSocket connection', {
+              connectionId: connection.connectionId
+            })
+          } catch (deleteError) {
+            Logger.error('Failed to remove stale connection', deleteError)
+          }
+        }
+      }
+    })
+
+    await Promise.all(broadcastPromises)
+    
+    Logger.info('Message broadcasted', {
+      deviceCode,
+      connectionsCount: items.length
+    })
+  } catch (error: unknown) {
+    Logger.error('Failed to broadcast message', {
+      deviceCode,
+      error
+    })
+  }
+}
+
+/**
+ * Send a message to a single WebSocket connection. Returns false when the
+ * connection is gone, so callers can stop producing for it.
+ */
+export async function sendToConnection(
+  connectionId: string,
+  message: DeviceMessage
+): Promise<boolean> {
+  const websocketEndpoint = process.env.WEBSOCKET_ENDPOINT
+  if (!websocketEndpoint) {
+    Logger.warn('WebSocket endpoint not configured')
+    return false
+  }
+
+  const apiGateway = new ApiGatewayManagementApi({
+    endpoint: websocketEndpoint
+  })
+
+  try {
+    await apiGateway.postToConnection({
+      ConnectionId: connectionId,
+      Data: JSON.stringify(message)
+    }).promise()
+
+    return true
+  } catch (error: unknown) {
+    if (isAwsError(error) && error.statusCode === 410) {
+      Logger.info('WebSocket connection is gone', { connectionId })
+      return false
+    }
+
+    throw error
+  }
+}
@@ -0,0 +1,62 @@
+import { nextWeightState, WeightState } from './weight';
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 0, 1, 8, 0, seconds));
+
+const LOADED: WeightState = {
+  weightBaseline: 1000,
+  weightPending: null,
+  weightPendingSince: null,
+};
+
+describe('nextWeightState', () => {
+  it('takes the first reading as the baseline', () => {
+    const empty = { ...LOADED, weightBaseline: null };
+    expect(nextWeightState(empty, 800, 0, at(0))).toEqual({
+      state: { ...LOADED, weightBaseline: 800 },
+      change: null,
+    });
+  });
+
+  it('ignores a single low sample while moving', () => {
+    const dip = nextWeightState(LOADED, 600, 60, at(0));
+    expect(dip.change).toBeNull();
+    expect(dip.state.weightBaseline).toBe(1000);
+
+    const recovered = nextWeightState(dip.state, 1000, 60, at(10));
+    expect(recovered).toEqual({ state: LOADED, change: null });
+  });
+
+  it('reports a drop in transit once a second reading confirms it', () => {
+    const first = nextWeightState(LOADED, 600, 60, at(0));
+    const second = nextWeightState(first.state, 610, 60, at(10));
+
+    expect(second.change).toEqual({
+      type: 'SUDDEN_DROP',
+      weightBefore: 1000,
+      weightAfter: 610,
+      startedAt: at(0),
+    });
+    expect(second.state.weightBaseline).toBe(610);
+  });
+
+  it('reports unloading at a stop only after the settle period', () => {
+    const first = nextWeightState(LOADED, 200, 0, at(0));
+    const early = nextWeightState(first.state, 200, 0, at(60));
+    expect(early.change).toBeNull();
+
+    const settled = nextWeightState(early.state, 200, 0, at(120));
+    expect(settled.change).toEqual({
+      type: 'UNLOADING',
+      weightBefore: 1000,
+      weightAfter: 200,
+      startedAt: at(0),
+    });
+  });
+
+  it('restarts settling when the pending reading changes', () => {
+    const first = nextWeightState(LOADED, 1500, 0, at(0));
+    const moved = nextWeightState(first.state, 1800, 0, at(150));
+    expect(moved.change).toBeNull();
+    expect(moved.state.weightPendingSince).toEqual(at(150));
+  });
+});
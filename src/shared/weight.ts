@@ -0,0 +1,156 @@
+// Load sensor analytics: loading/unloading events and sudden drops in transit.
+// `Tracking.weight` is the measured load in kg.
+
+import { Alert, Device, PrismaClient, WeightEvent, WeightEventType } from '@prisma/client'
+
+export interface WeightDetectionOptions {
+  changeKg: number // smallest load change treated as loading or unloading
+  settleSeconds: number // how long a new reading must hold before it counts
+  movingSpeed: number // km/h, above which a drop is suspicious
+}
+
+export const DEFAULT_WEIGHT_OPTIONS: WeightDetectionOptions = {
+  changeKg: 50,
+  settleSeconds: 120,
+  movingSpeed: 5
+}
+
+export interface WeightPoint {
+  trackingId: number
+  lat: number
+  long: number
+  weight: number | null // kg
+  speed: number | null // km/h
+  trackedAt: Date
+}
+
+export type WeightState = Pick<Device, 'weightBaseline' | 'weightPending' | 'weightPendingSince'>
+
+export interface WeightChange {
+  type: WeightEventType
+  weightBefore: number
+  weightAfter: number
+  startedAt: Date
+}
+
+/**
+ * Advance the load state with a new reading. A change only becomes a
+ * LOADING/UNLOADING event once it has held for `settleSeconds`, so sensor
+ * noise and bumps in the road are ignored; a large drop while moving is
+ * reported as soon as the next reading confirms it.
+ */
+export const nextWeightState = (
+  state: WeightState,
+  weight: number,
+  speed: number | null,
+  trackedAt: Date,
+  options: WeightDetectionOptions = DEFAULT_WEIGHT_OPTIONS
+): { state: WeightState; change: WeightChange | null } => {
+  const settled = { weightBaseline: weight, weightPending: null, weightPendingSince: null }
+
+  if (state.weightBaseline === null) {
+    return { state: settled, change: null }
+  }
+
+  const baseline = state.weightBaseline
+  const difference = weight - baseline
+
+  if (Math.abs(difference) < options.changeKg) {
+    return { state: { weightBaseline: baseline, weightPending: null, weightPendingSince: null }, change: null }
+  }
+
+  // A reading far from the pending one restarts the settling period
+  const continuing = state.weightPending !== null && Math.abs(weight - state.weightPending) < options.changeKg
+  const pendingSince = continuing && state.weightPendingSince ? state.weightPendingSince : trackedAt
+
+  // A single low sample in transit stays pending; the baseline moves once a second one agrees
+  if (difference < 0 && continuing && speed !== null && speed > options.movingSpeed) {
+    return {
+      state: settled,
+      change: { type: 'SUDDEN_DROP', weightBefore: baseline, weightAfter: weight, startedAt: pendingSince }
+    }
+  }
+
+  if ((trackedAt.getTime() - pendingSince.getTime()) / 1000 < options.settleSeconds) {
+    return {
+      state: {
+        weightBaseline: baseline,
+        weightPending: continuing ? state.weightPending : weight,
+        weightPendingSince: pendingSince
+      },
+      change: null
+    }
+  }
+
+  return {
+    state: settled,
+    change: {
+      type: difference > 0 ? 'LOADING' : 'UNLOADING',
+      weightBefore: baseline,
+      weightAfter: weight,
+      startedAt: pendingSince
+    }
+  }
+}
+
+/**
+ * Feed the weight of a newly stored point into the device's load state.
+ * Returns the weight event it completed and, for drops in transit, the alert.
+ */
+export const updateWeight = async (
+  client: PrismaClient,
+  deviceCode: string,
+  point: WeightPoint
+): Promise<{ event: WeightEvent | null; alert: Alert | null }> => {
+  const none = { event: null, alert: null }
+  if (point.weight === null) return none
+
+  const device = await client.device.findUnique({
+    where: { code: deviceCode },
+    select: { weightBaseline: true, weightPending: true, weightPendingSince: true, weightUpdatedAt: true }
+  })
+
+  // Late points must not rewind the load state
+  if (!device || (device.weightUpdatedAt && point.trackedAt < device.weightUpdatedAt)) return none
+
+  const next = nextWeightState(device, point.weight, point.speed, point.trackedAt)
+
+  // Guard against a concurrent ingest having already moved the state on
+  const updated = await client.device.updateMany({
+    where: { code: deviceCode, weightUpdatedAt: device.weightUpdatedAt },
+    data: { ...next.state, weightUpdatedAt: point.trackedAt }
+  })
+  if (updated.count === 0 || !next.change) return none
+
+  const { change } = next
+  const event = await client.weightEvent.create({
+    data: {
+      deviceCode,
+      ...change,
+      change: change.weightAfter - change.weightBefore,
+      speed: point.speed,
+      lat: point.lat,
+      long: point.long,
+      trackingId: point.trackingId,
+      occurredAt: point.trackedAt
+    }
+  })
+
+  if (change.type !== 'SUDDEN_DROP') return { event, alert: null }
+
+  const alert = await client.alert.create({
+    data: {
+      deviceCode,
+      type: 'WEIGHT_DROP',
+      message: `Load dropped by ${Math.round(change.weightBefore - change.weightAfter)} kg while moving`,
+      value: change.weightAfter,
+      threshold: change.weightBefore,
+      trackingId: point.trackingId,
+      lat: point.lat,
+      long: point.long,
+      occurredAt: point.trackedAt
+    }
+  })
+
+  return { event, alert }
+}
@@ -0,0 +1,341 @@
+import {
+  Injectable,
+  Logger,
+  OnModuleDestroy,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Tracking } from '@prisma/client';
+import { createServer, Server, Socket } from 'net';
+import { PrismaService } from '../prisma/prisma.service';
+import { AlertsService } from '../devices/alerts.service';
+import { ConnectivityService } from '../devices/connectivity.service';
+import { DevicesService } from '../devices/devices.service';
+import { validateTrackPoint } from '../devices/dto/track-device.dto';
+import {
+  decodeGt06Frame,
+  Gt06Fix,
+  Gt06Message,
+  gt06Response,
+  splitGt06Frames,
+} from '../shared/gt06';
+import {
+  decodeTeltonikaImei,
+  decodeTeltonikaPacket,
+  TELTONIKA_IO,
+  teltonikaAck,
+  TeltonikaRecord,
+} from '../shared/teltonika';
+
+export type TrackerProtocol = 'gt06' | 'teltonika';
+
+// Ports are read from these variables; a protocol without one is not served
+const PORT_VARIABLES: Record<TrackerProtocol, string> = {
+  gt06: 'GT06_PORT',
+  teltonika: 'TELTONIKA_PORT',
+};
+
+// GT06 heartbeats default to every 3 minutes; silence beyond this is a dead link
+const IDLE_TIMEOUT_MS = 10 * 60 * 1000;
+
+// Unparsed bytes kept per connection before it is dropped as garbage
+const MAX_BUFFERED_BYTES = 64 * 1024;
+
+interface TrackerDevice {
+  code: string;
+  iotSimNumber: string;
+}
+
+interface TrackerSession {
+  protocol: TrackerProtocol;
+  socket: Socket;
+  buffer: Buffer;
+  device?: TrackerDevice;
+  // Incoming data is handled strictly in order
+  queue: Promise<void>;
+}
+
+/**
+ * TCP servers for binary tracker protocols. Devices identify themselves by
+ * IMEI, which is matched against Device.imei; their fixes are stored through
+ * DevicesService like any HTTP point, and acknowledged once stored.
+ */
+@Injectable()
+export class TcpIngestService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(TcpIngestService.name);
+  private readonly servers = new Set<Server>();
+  private readonly sockets = new Set<Socket>();
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly devicesService: DevicesService,
+    private readonly connectivityService: ConnectivityService,
+    private readonly alertsService: AlertsService,
+  ) {}
+
+  onModuleInit() {
+    for (const protocol of ['gt06', 'teltonika'] as const) {
+      const value = process.env[PORT_VARIABLES[protocol]];
+      const port = Number(value);
+      if (!value || !Number.isInteger(port)) continue;
+
+      this.listen(protocol, port).catch((error) =>
+        this.logger.error(`${protocol} server failed to start`, error),
+      );
+    }
+  }
+
+  async onModuleDestroy() {
+    await this.close();
+  }
+
+  // Start a server for one protocol; `port` 0 picks a free port, which is returned
+  async listen(
+    protocol: TrackerProtocol,
+    port: number,
+    host = process.env.TRACKER_HOST,
+  ) {
+    const server = createServer((socket) =>
+      this.handleConnection(protocol, socket),
+    );
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(port, host, () => resolve());
+    });
+    this.servers.add(server);
+
+    const address = server.address();
+    const boundPort =
+      typeof address === 'object' && address ? address.port : port;
+    this.logger.log(`${protocol} server listening on port ${boundPort}`);
+
+    return boundPort;
+  }
+
+  async close() {
+    for (const socket of this.sockets) socket.destroy();
+    this.sockets.clear();
+
+    const servers = [...this.servers];
+    this.servers.clear();
+    await Promise.all(
+      servers.map(
+        (server) =>
+          new Promise<void>((resolve) => server.close(() => resolve())),
+      ),
+    );
+  }
+
+  private handleConnection(protocol: TrackerProtocol, socket: Socket) {
+    const session: TrackerSession = {
+      protocol,
+      socket,
+      buffer: Buffer.alloc(0),
+      queue: Promise.resolve(),
+    };
+    this.sockets.add(socket);
+
+    socket.setTimeout(IDLE_TIMEOUT_MS, () => socket.destroy());
+    socket.on('close', () => this.sockets.delete(socket));
+    socket.on('error', (error) =>
+      this.logger.warn(`${protocol} connection error: ${error.message}`),
+    );
+    socket.on('data', (chunk) => {
+      session.queue = session.queue
+        .then(() => this.receive(session, chunk))
+        .catch((error) => {
+          this.logger.error(`${protocol} data handling failed`, error);
+          socket.destroy();
+        });
+    });
+  }
+
+  private async receive(session: TrackerSession, chunk: Buffer) {
+    if (session.socket.destroyed) return;
+
+    session.buffer = Buffer.concat([session.buffer, chunk]);
+    if (session.protocol === 'gt06') {
+      await this.receiveGt06(session);
+    } else {
+      await this.receiveTeltonika(session);
+    }
+
+    if (session.buffer.length > MAX_BUFFERED_BYTES) {
+      this.logger.warn(
+        `Dropping ${session.protocol} connection sending garbage`,
+      );
+      session.socket.destroy();
+    }
+  }
+
+  private async receiveGt06(session: TrackerSession) {
+    const { frames, rest } = splitGt06Frames(session.buffer);
+    session.buffer = rest;
+
+    for (const frame of frames) {
+      const { message, error } = decodeGt06Frame(frame);
+      if (!message) {
+        this.logger.warn(`Ignored GT06 frame: ${error}`);
+        continue;
+      }
+
+      if (message.type === 'login') {
+        session.device = await this.findDevice(message.imei);
+      }
+      if (!session.device) {
+        session.socket.destroy();
+        return;
+      }
+
+      await this.handleGt06(session.device, message);
+
+      const response = gt06Response(message.protocol, message.serial);
+      if (response) session.socket.write(response);
+    }
+  }
+
+  private async handleGt06(device: TrackerDevice, message: Gt06Message) {
+    switch (message.type) {
+      case 'location':
+        await this.store(
+          device,
+          message.fix.valid ? gt06Point(message.fix) : null,
+        );
+        break;
+      case 'heartbeat':
+        await this.connectivityService.markSeen(device.code, new Date());
+        break;
+      case 'alarm': {
+        const tracked = await this.store(
+          device,
+          message.fix.valid
+            ? { ...gt06Point(message.fix), level: message.status.battery }
+            : null,
+        );
+        if (message.alarm) {
+          await this.alertsService.raiseDeviceAlarm(
+            device.code,
+            message.alarm,
+            tracked,
+          );
+        }
+        break;
+      }
+    }
+  }
+
+  private async receiveTeltonika(session: TrackerSession) {
+    if (!session.device) {
+      const handshake = decodeTeltonikaImei(session.buffer);
+      if (!handshake) return;
+
+      session.buffer = session.buffer.subarray(handshake.consumed);
+      session.device = handshake.imei
+        ? await this.findDevice(handshake.imei)
+        : undefined;
+
+      session.socket.write(Buffer.from([session.device ? 0x01 : 0x00]));
+      if (!session.device) {
+        session.socket.end();
+        return;
+      }
+    }
+
+    for (;;) {
+      const packet = decodeTeltonikaPacket(session.buffer);
+      if (!packet) return;
+
+      session.buffer = session.buffer.subarray(packet.consumed);
+      // Unacknowledged packets are sent again by the device
+      if (!packet.records) {
+        this.logger.warn(`Ignored Teltonika packet: ${packet.error}`);
+        continue;
+      }
+
+      for (const record of packet.records) {
+        const tracked = await this.store(
+          session.device,
+          record.valid ? teltonikaPoint(record) : null,
+        );
+        if (record.panic) {
+          await this.alertsService.raiseDeviceAlarm(
+            session.device.code,
+            'panic',
+            tracked,
+          );
+        }
+      }
+
+      session.socket.write(teltonikaAck(packet.records.length));
+    }
+  }
+
+  private async findDevice(imei: string) {
+    const device = await this.prisma.device.findUnique({
+      where: { imei },
+      select: { code: true, iotSimNumber: true, assignedTo: true },
+    });
+
+    if (!device || !device.iotSimNumber || !device.assignedTo) {
+      this.logger.warn(
+        `Rejected tracker ${imei}: ${device ? 'device is not set up for tracking' : 'unknown IMEI'}`,
+      );
+      return undefined;
+    }
+
+    return { code: device.code, iotSimNumber: device.iotSimNumber };
+  }
+
+  /**
+   * Store a fix through the HTTP tracking path. Without a position the device
+   * only counts as seen. Fixes the DTO or the pipeline refuse are logged and
+   * skipped so one bad point does not stall the connection.
+   */
+  private async store(
+    device: TrackerDevice,
+    point: Record<string, unknown> | null,
+  ): Promise<Tracking | undefined> {
+    if (!point) {
+      await this.connectivityService.markSeen(device.code, new Date());
+      return undefined;
+    }
+
+    const { dto, errors } = await validateTrackPoint(point);
+    if (!dto) {
+      this.logger.warn(`Dropped fix from ${device.code}: ${errors.join('; ')}`);
+      return undefined;
+    }
+
+    try {
+      return await this.devicesService.trackDevice(
+        device.code,
+        device.iotSimNumber,
+        dto,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Dropped fix from ${device.code}: ${error instanceof Error ? error.message : error}`,
+      );
+      return undefined;
+    }
+  }
+}
+
+const gt06Point = (fix: Gt06Fix): Record<string, unknown> => ({
+  lat: fix.lat,
+  long: fix.long,
+  speed: fix.speed,
+  course: fix.course,
+  noOfSatellites: fix.satellites,
+  fixTime: fix.fixTime.toISOString(),
+});
+
+const teltonikaPoint = (record: TeltonikaRecord): Record<string, unknown> => ({
+  lat: record.lat,
+  long: record.long,
+  altitude: record.altitude,
+  speed: record.speed,
+  course: record.angle,
+  noOfSatellites: record.satellites,
+  level: record.io[TELTONIKA_IO.batteryLevel],
+  fixTime: record.timestamp.toISOString(),
+});
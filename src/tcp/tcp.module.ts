@@ -0,0 +1,10 @@
+import { Module } from '@nestjs/common';
+import { DevicesModule } from '../devices/devices.module';
+import { TcpIngestService } from './tcp-ingest.service';
+
+@Module({
+  imports: [DevicesModule],
+  providers: [TcpIngestService],
+  exports: [TcpIngestService],
+})
+export class TcpModule {}
@@ -0,0 +1,106 @@
+import { Handler } from 'aws-lambda'
+import { prisma } from '../shared/prisma-client'
+import { Logger } from '../shared/utils'
+import { sendToConnection } from '../shared/websocket-broadcast'
+import { loadPlaybackPoints, playbackDelay, playbackLocationUpdate } from '../shared/playback'
+import {
+  checkpointPlaybackRun,
+  getPlaybackRun,
+  PlaybackWorkerEvent,
+  playbackMessage,
+  removePlaybackRun,
+  startPlaybackWorker
+} from '../shared/playback-runs'
+
+// How often the worker saves its position and checks it is still wanted
+const CHECKPOINT_INTERVAL_MS = 1000
+
+// Time left at which the worker hands over to a fresh invocation
+const HANDOVER_MARGIN_MS = 15000
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms))
+
+/**
+ * Stream the points of a playback run to its connection, invoked
+ * asynchronously by the playback route. Stops when the run is paused,
+ * replaced or stopped, and re-invokes itself before the Lambda times out.
+ */
+export const handler: Handler<PlaybackWorkerEvent> = async (event, context) => {
+  const { connectionId, runId } = event
+
+  try {
+    const run = await getPlaybackRun(connectionId)
+    if (!run || run.runId !== runId || run.status !== 'playing') {
+      Logger.debug('Playback run superseded', { connectionId, runId })
+      return
+    }
+
+    const to = new Date(run.to)
+    let cursor = { trackedAt: new Date(run.cursor.trackedAt), id: run.cursor.id }
+    let lastSent = run.lastSent ? new Date(run.lastSent) : null
+    let checkpointedAt = Date.now()
+
+    const checkpoint = () =>
+      checkpointPlaybackRun(
+        connectionId,
+        runId,
+        { trackedAt: cursor.trackedAt.toISOString(), id: cursor.id },
+        lastSent?.toISOString() ?? null
+      )
+
+    for (;;) {
+      const points = await loadPlaybackPoints(prisma, run.deviceCode, cursor, to)
+
+      if (points.length === 0) {
+        if (!(await checkpoint())) return
+
+        await removePlaybackRun(connectionId, runId)
+        await sendToConnection(connectionId, playbackMessage('playback-status', run.deviceCode, {
+          status: 'ended',
+          deviceCode: run.deviceCode,
+          position: lastSent,
+          speed: run.speed
+        }))
+
+        Logger.info('Playback ended', { connectionId, deviceCode: run.deviceCode })
+        return
+      }
+
+      for (const point of points) {
+        const delay = playbackDelay(lastSent, point.trackedAt, run.speed)
+
+        if (context.getRemainingTimeInMillis() - delay < HANDOVER_MARGIN_MS) {
+          if (await checkpoint()) {
+            await startPlaybackWorker({ connectionId, runId })
+          }
+          return
+        }
+
+        await sleep(delay)
+
+        const sent = await sendToConnection(
+          connectionId,
+          playbackMessage('location-update', run.deviceCode, playbackLocationUpdate(run.deviceCode, point))
+        )
+        if (!sent) {
+          Logger.info('Playback connection closed', { connectionId })
+          return
+        }
+
+        cursor = { trackedAt: point.trackedAt, id: point.id }
+        lastSent = point.trackedAt
+
+        if (Date.now() - checkpointedAt >= CHECKPOINT_INTERVAL_MS) {
+          if (!(await checkpoint())) return
+          checkpointedAt = Date.now()
+        }
+      }
+    }
+  } catch (error: unknown) {
+    Logger.error('Playback worker failed', {
+      connectionId,
+      runId,
+      error
+    })
+  }
+}
@@ -0,0 +1,163 @@
+import { APIGatewayProxyHandler } from 'aws-lambda'
+import * as jwt from 'jsonwebtoken'
+import { prisma } from '../shared/prisma-client'
+import { Logger, parseBody } from '../shared/utils'
+import { sendToConnection } from '../shared/websocket-broadcast'
+import { parsePlaybackCommand, PlaybackCommand, PlaybackStatus } from '../shared/playback'
+import {
+  getPlaybackRun,
+  newPlaybackRunId,
+  PlaybackRun,
+  playbackMessage,
+  removePlaybackRun,
+  savePlaybackRun,
+  startPlaybackWorker
+} from '../shared/playback-runs'
+
+interface JwtPayload {
+  id: number
+  role: string
+}
+
+const respond = (statusCode: number, message: string) => ({
+  statusCode,
+  body: JSON.stringify({ message })
+})
+
+const sendStatus = (connectionId: string, deviceCode: string, status: PlaybackStatus) =>
+  sendToConnection(connectionId, playbackMessage('playback-status', deviceCode, status))
+
+const statusOf = (run: PlaybackRun, status: PlaybackStatus['status']): PlaybackStatus => ({
+  status,
+  deviceCode: run.deviceCode,
+  position: run.lastSent ? new Date(run.lastSent) : null,
+  speed: run.speed
+})
+
+// Same access rule as the tracking history: owner, shared user or admin
+const canViewDevice = async (deviceCode: string, user: JwtPayload): Promise<boolean | null> => {
+  const device = await prisma.device.findUnique({
+    where: { code: deviceCode },
+    include: {
+      sharedDevices: {
+        where: { userId: user.id },
+        select: { userId: true }
+      }
+    }
+  })
+
+  if (!device) return null
+
+  return device.assignedTo === user.id ||
+    device.sharedDevices.length > 0 ||
+    ['SUPER_ADMIN', 'ADMIN'].includes(user.role)
+}
+
+const start = async (connectionId: string, command: Extract<PlaybackCommand, { command: 'start' }>) => {
+  const jwtSecret = process.env.JWT_SECRET
+  if (!command.token || !jwtSecret) {
+    return respond(401, 'A token is required for playback')
+  }
+
+  let user: JwtPayload
+  try {
+    user = jwt.verify(command.token, jwtSecret) as JwtPayload
+  } catch {
+    Logger.warn('Invalid playback token', { connectionId })
+    return respond(401, 'Invalid or expired token')
+  }
+
+  const access = await canViewDevice(command.deviceCode, user)
+  if (access === null) return respond(404, 'Device not found')
+  if (!access) return respond(403, 'Access denied to this device')
+
+  const run: PlaybackRun = {
+    runId: newPlaybackRunId(),
+    userId: user.id,
+    deviceCode: command.deviceCode,
+    from: command.from.toISOString(),
+    to: command.to.toISOString(),
+    speed: command.speed,
+    status: 'playing',
+    cursor: { trackedAt: command.from.toISOString(), id: 0 },
+    lastSent: null
+  }
+
+  await savePlaybackRun(connectionId, run)
+  await startPlaybackWorker({ connectionId, runId: run.runId })
+  await sendStatus(connectionId, run.deviceCode, statusOf(run, 'playing'))
+
+  return respond(200, `Playback started for device: ${run.deviceCode}`)
+}
+
+/**
+ * Handle the playback route. Every command saves the run under a new runId,
+ * which retires the worker streaming the previous one; a new worker is
+ * started whenever the run should be playing.
+ */
+export const handler: APIGatewayProxyHandler = async (event) => {
+  const connectionId = event.requestContext.connectionId!
+
+  try {
+    Logger.info('WebSocket playback request', {
+      connectionId,
+      body: event.body
+    })
+
+    const { command, error } = parsePlaybackCommand(parseBody(event.body))
+    if (!command) {
+      return respond(400, error!)
+    }
+
+    if (command.command === 'start') {
+      return await start(connectionId, command)
+    }
+
+    const run = await getPlaybackRun(connectionId)
+    if (!run) {
+      return respond(400, 'No playback is running')
+    }
+
+    if (command.command === 'stop') {
+      await removePlaybackRun(connectionId)
+      await sendStatus(connectionId, run.deviceCode, statusOf(run, 'stopped'))
+      return respond(200, 'Playback stopped')
+    }
+
+    const updated: PlaybackRun = { ...run, runId: newPlaybackRunId() }
+
+    switch (command.command) {
+      case 'pause':
+        updated.status = 'paused'
+        break
+      case 'resume':
+        updated.status = 'playing'
+        break
+      case 'seek':
+        if (command.at < new Date(run.from) || command.at > new Date(run.to)) {
+          return respond(400, 'Seek position is outside the range')
+        }
+        updated.cursor = { trackedAt: command.at.toISOString(), id: 0 }
+        updated.lastSent = null
+        break
+      case 'speed':
+        updated.speed = command.speed
+        break
+    }
+
+    await savePlaybackRun(connectionId, updated)
+    if (updated.status === 'playing') {
+      await startPlaybackWorker({ connectionId, runId: updated.runId })
+    }
+    await sendStatus(connectionId, updated.deviceCode, statusOf(updated, updated.status))
+
+    return respond(200, `Playback ${updated.status}`)
+  } catch (error: unknown) {
+    Logger.error('WebSocket playback failed', {
+      connectionId,
+      error
+    })
+
+    return respond(500, 'Playback failed')
+  }
+}